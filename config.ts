@@ -0,0 +1,602 @@
+import type { HandlerConfig, LogConfig, LoggerConfig } from "./mod.ts";
+import {
+  BaseHandler,
+  ConsoleHandler,
+  FileHandler,
+  HandlerOptions,
+  RotatingFileHandler,
+  TimedRotatingFileHandler,
+} from "./handlers.ts";
+import { TelegramHandler } from "./handlers/telegram.handler.ts";
+import { MemoryHandler } from "./handlers/memory.handler.ts";
+import { RateLimitHandler } from "./handlers/ratelimit.handler.ts";
+import { HttpHandler } from "./handlers/http.handler.ts";
+import { SyslogHandler } from "./handlers/syslog.handler.ts";
+import { jsonFormatter } from "./formatters.ts";
+import {
+  categoryFilter,
+  fieldsFilter,
+  LogFilter,
+  loggerNameFilter,
+  msgFilter,
+} from "./filters.ts";
+import { getLevelNames, LevelName } from "./levels.ts";
+import {
+  RedactionOptions,
+  RedactionPattern,
+  redactionPatterns,
+} from "./redact.ts";
+import { parseDuration } from "./util/time.ts";
+import { parseYaml } from "./deps.ts";
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+type RawObject = Record<string, unknown>;
+type Env = Record<string, string>;
+type OptionType = "number" | "boolean" | "duration";
+
+interface HandlerFactory {
+  required: string[];
+  /** Checked before `create`, strings such as `"${MAX_BYTES}"` are
+   * converted
+   */
+  types?: Record<string, OptionType>;
+  create(levelName: LevelName, options: RawObject, path: string): BaseHandler;
+}
+
+const ENV_PREFIX = "UZULOG_LEVEL";
+
+const baseOptionTypes: Record<string, OptionType> = {
+  noColor: "boolean",
+  captureCaller: "boolean",
+};
+
+const retentionOptionTypes: Record<string, OptionType> = {
+  maxBackupCount: "number",
+  compress: "boolean",
+  maxAge: "duration",
+};
+
+const handlerFactories: Record<string, HandlerFactory> = {
+  console: {
+    required: [],
+    create: (levelName, options) => new ConsoleHandler(levelName, options),
+  },
+  file: {
+    required: ["filename"],
+    create: (levelName, options) =>
+      new FileHandler(levelName, options as { filename: string }),
+  },
+  rotatingFile: {
+    required: ["filename", "maxBytes", "maxBackupCount"],
+    types: { ...retentionOptionTypes, maxBytes: "number" },
+    create: (levelName, options) =>
+      new RotatingFileHandler(
+        levelName,
+        options as {
+          filename: string;
+          maxBytes: number;
+          maxBackupCount: number;
+        },
+      ),
+  },
+  timedRotatingFile: {
+    required: ["filename", "maxBackupCount"],
+    types: { ...retentionOptionTypes, interval: "number", weekday: "number" },
+    create: (levelName, options) =>
+      new TimedRotatingFileHandler(
+        levelName,
+        options as { filename: string; maxBackupCount: number },
+      ),
+  },
+  telegram: {
+    required: ["botToken", "chatID"],
+    types: {
+      threadID: "number",
+      silent: "boolean",
+      drainTimeout: "number",
+      maxRetries: "number",
+      documentThreshold: "number",
+    },
+    create: (levelName, options) =>
+      new TelegramHandler(
+        levelName,
+        options as { botToken: string; chatID: string },
+      ),
+  },
+  http: {
+    required: ["url"],
+    types: {
+      batchSize: "number",
+      flushInterval: "duration",
+      maxQueueSize: "number",
+      maxRetries: "number",
+      retryDelay: "duration",
+      maxRetryDelay: "duration",
+      shutdownTimeout: "duration",
+    },
+    create: (levelName, options) =>
+      new HttpHandler(levelName, options as { url: string }),
+  },
+  syslog: {
+    required: [],
+    types: {
+      port: "number",
+      reconnectDelay: "number",
+      maxQueueSize: "number",
+    },
+    create: (levelName, options) => new SyslogHandler(levelName, options),
+  },
+  memory: {
+    required: ["target", "capacity"],
+    types: { capacity: "number", flushOnDestroy: "boolean" },
+    create: (levelName, options, path) =>
+      new MemoryHandler(levelName, {
+        ...options,
+        target: buildHandler(options.target, `${path}.target`),
+        capacity: options.capacity as number,
+      }),
+  },
+  rateLimit: {
+    required: ["target"],
+    types: {
+      rate: "number",
+      burst: "number",
+      interval: "duration",
+      dedupe: "boolean",
+      dedupeWindow: "duration",
+      maxTracked: "number",
+      summaryInterval: "duration",
+    },
+    create: (levelName, options, path) =>
+      new RateLimitHandler(levelName, {
+        ...options,
+        target: buildHandler(options.target, `${path}.target`),
+      }),
+  },
+};
+
+type FilterFactory = (options: RawObject, path: string) => LogFilter;
+
+const filterFactories: Record<string, FilterFactory> = {
+  category: (options, path) =>
+    categoryFilter({
+      allow: options.allow === undefined
+        ? undefined
+        : expectStringArray(options.allow, `${path}.allow`),
+      deny: options.deny === undefined
+        ? undefined
+        : expectStringArray(options.deny, `${path}.deny`),
+    }),
+  loggerName: (options, path) =>
+    loggerNameFilter(expectStringArray(options.names, `${path}.names`)),
+  msg: (options, path) => {
+    const pattern = expectString(options.pattern, `${path}.pattern`);
+    const flags = options.flags === undefined
+      ? undefined
+      : expectString(options.flags, `${path}.flags`);
+    try {
+      return msgFilter(new RegExp(pattern, flags));
+    } catch (err) {
+      throw new ConfigError(`${path}.pattern: ${err.message}`);
+    }
+  },
+  fields: (options, path) =>
+    fieldsFilter(expectObject(options.match, `${path}.match`)),
+};
+
+function isRawObject(value: unknown): value is RawObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): RawObject {
+  if (!isRawObject(value)) {
+    throw new ConfigError(`${path} must be an object`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    throw new ConfigError(
+      `${path} must be a string, got ${JSON.stringify(value)}`,
+    );
+  }
+  return value;
+}
+
+function expectLevelName(value: unknown, path: string): LevelName {
+  const names: string[] = getLevelNames();
+  if (typeof value !== "string" || !names.includes(value)) {
+    throw new ConfigError(
+      `${path} must be one of ${names.join(", ")}, got ${
+        JSON.stringify(value)
+      }`,
+    );
+  }
+  return value as LevelName;
+}
+
+function convertOption(
+  value: unknown,
+  type: OptionType,
+  path: string,
+): unknown {
+  if (type === "number") {
+    const result = typeof value === "string" && value.trim()
+      ? Number(value)
+      : value;
+    if (typeof result !== "number" || !Number.isFinite(result)) {
+      throw new ConfigError(
+        `${path} must be a number, got ${JSON.stringify(value)}`,
+      );
+    }
+    return result;
+  }
+
+  if (type === "boolean") {
+    if (value === "true" || value === "false") {
+      return value === "true";
+    }
+    if (typeof value !== "boolean") {
+      throw new ConfigError(
+        `${path} must be a boolean, got ${JSON.stringify(value)}`,
+      );
+    }
+    return value;
+  }
+
+  if (typeof value === "number" || typeof value === "string") {
+    try {
+      parseDuration(value);
+      return value;
+    } catch {
+      // reported below
+    }
+  }
+  throw new ConfigError(
+    `${path} must be a duration such as "5s", got ${JSON.stringify(value)}`,
+  );
+}
+
+function expectStringArray(value: unknown, path: string): string[] {
+  if (
+    !Array.isArray(value) || value.some((item) => typeof item !== "string")
+  ) {
+    throw new ConfigError(`${path} must be an array of strings`);
+  }
+  return value;
+}
+
+/** Replaces `${NAME}` and `${NAME:-default}` in every string of `value` */
+export function interpolateEnv(
+  value: unknown,
+  env: Env,
+  path = "config",
+): unknown {
+  if (typeof value === "string") {
+    return value.replace(
+      /\$\{(\w+)(?::-([^}]*))?\}/g,
+      (_match, name: string, fallback?: string): string => {
+        const result = env[name] ?? fallback;
+        if (result === undefined) {
+          throw new ConfigError(
+            `${path} references environment variable ${name} which is not set`,
+          );
+        }
+        return result;
+      },
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, i) => interpolateEnv(item, env, `${path}[${i}]`));
+  }
+
+  if (isRawObject(value)) {
+    const result: RawObject = {};
+    for (const key of Object.keys(value)) {
+      result[key] = interpolateEnv(value[key], env, `${path}.${key}`);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function buildFormatter(
+  value: unknown,
+  path: string,
+): HandlerOptions["formatter"] {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  const { type, ...options } = expectObject(value, path);
+  if (type !== "json") {
+    throw new ConfigError(`${path}.type must be "json"`);
+  }
+  return jsonFormatter(options);
+}
+
+function buildHandler(value: unknown, path: string): BaseHandler {
+  const { type, level, formatter, ...options } = expectObject(value, path);
+  const factory = handlerFactories[type as string];
+
+  if (!factory) {
+    throw new ConfigError(
+      `${path}.type must be one of ${
+        Object.keys(handlerFactories).join(", ")
+      }, got ${JSON.stringify(type)}`,
+    );
+  }
+
+  for (const key of factory.required) {
+    if (options[key] === undefined) {
+      throw new ConfigError(`${path}.${key} is required for "${type}"`);
+    }
+  }
+
+  const types = { ...baseOptionTypes, ...factory.types };
+  for (const key of Object.keys(types)) {
+    if (options[key] !== undefined) {
+      options[key] = convertOption(options[key], types[key], `${path}.${key}`);
+    }
+  }
+
+  if (formatter !== undefined) {
+    options.formatter = buildFormatter(formatter, `${path}.formatter`);
+  }
+
+  return factory.create(
+    expectLevelName(level ?? "NOTSET", `${path}.level`),
+    options,
+    path,
+  );
+}
+
+function buildFilter(value: unknown, path: string): LogFilter {
+  const { type, ...options } = expectObject(value, path);
+  const factory = filterFactories[type as string];
+
+  if (!factory) {
+    throw new ConfigError(
+      `${path}.type must be one of ${
+        Object.keys(filterFactories).join(", ")
+      }, got ${JSON.stringify(type)}`,
+    );
+  }
+
+  return factory(options, path);
+}
+
+function buildLogger(value: unknown, path: string): LoggerConfig {
+  const raw = expectObject(value, path);
+  const result: LoggerConfig = {};
+
+  if (raw.level !== undefined) {
+    result.level = expectLevelName(raw.level, `${path}.level`);
+  }
+  if (raw.handlers !== undefined) {
+    result.handlers = expectStringArray(raw.handlers, `${path}.handlers`);
+  }
+  if (raw.filters !== undefined) {
+    result.filters = expectStringArray(raw.filters, `${path}.filters`);
+  }
+  if (raw.propagate !== undefined) {
+    if (typeof raw.propagate !== "boolean") {
+      throw new ConfigError(`${path}.propagate must be a boolean`);
+    }
+    result.propagate = raw.propagate;
+  }
+  if (raw.captureCaller !== undefined) {
+    if (typeof raw.captureCaller !== "boolean") {
+      throw new ConfigError(`${path}.captureCaller must be a boolean`);
+    }
+    result.captureCaller = raw.captureCaller;
+  }
+
+  return result;
+}
+
+/** Pattern entries are either the name of a built-in pattern (`jwt`,
+ * `bearer`, `cardNumber`) or a regular expression source.
+ */
+function buildRedaction(value: unknown, path: string): RedactionOptions {
+  const raw = expectObject(value, path);
+  const result: RedactionOptions = {};
+
+  if (raw.keys !== undefined) {
+    result.keys = expectStringArray(raw.keys, `${path}.keys`);
+  }
+  if (raw.patterns !== undefined) {
+    result.patterns = expectStringArray(raw.patterns, `${path}.patterns`)
+      .map((pattern, i): RedactionPattern => {
+        if (pattern in redactionPatterns) {
+          return redactionPatterns[pattern];
+        }
+        try {
+          return { pattern: new RegExp(pattern, "g") };
+        } catch (err) {
+          throw new ConfigError(`${path}.patterns[${i}]: ${err.message}`);
+        }
+      });
+  }
+  if (raw.replacement !== undefined) {
+    if (typeof raw.replacement !== "string") {
+      throw new ConfigError(`${path}.replacement must be a string`);
+    }
+    result.replacement = raw.replacement;
+  }
+
+  return result;
+}
+
+/** Applies `UZULOG_LEVEL` to the default logger and `UZULOG_LEVEL_<name>`
+ * to the named logger, dots in logger names are written as underscores.
+ */
+function applyEnvLevels(
+  loggers: Record<string, LoggerConfig>,
+  env: Env,
+): void {
+  for (const key of Object.keys(env)) {
+    if (key !== ENV_PREFIX && !key.startsWith(ENV_PREFIX + "_")) {
+      continue;
+    }
+
+    const envName = key === ENV_PREFIX
+      ? "default"
+      : key.slice(ENV_PREFIX.length + 1);
+    const loggerName = Object.keys(loggers).find((name) =>
+      name.replace(/\./g, "_") === envName
+    ) ?? envName.replace(/_/g, ".");
+
+    loggers[loggerName] = {
+      ...loggers[loggerName],
+      level: expectLevelName(env[key], key),
+    };
+  }
+}
+
+function checkFilterNames(
+  config: LogConfig,
+  names: string[] | undefined,
+  path: string,
+): void {
+  for (const filterName of names || []) {
+    if (!(filterName in config.filters!)) {
+      throw new ConfigError(
+        `${path} references unknown filter "${filterName}"`,
+      );
+    }
+  }
+}
+
+/** Turns a parsed JSON/YAML document into a `LogConfig`.  Handlers and
+ * filters are described by `type` plus options:
+ *
+ *     handlers:
+ *       alerts:
+ *         type: telegram
+ *         level: ERROR
+ *         botToken: ${TG_BOT_TOKEN}
+ *         chatID: "-100123"
+ *         filters: [payments]
+ *     filters:
+ *       payments:
+ *         type: category
+ *         allow: [payments]
+ *     loggers:
+ *       default:
+ *         level: INFO
+ *         handlers: [alerts]
+ *     redact:
+ *       keys: [password, authorization, botToken]
+ *       patterns: [jwt, bearer, cardNumber]
+ */
+export function buildConfig(
+  value: unknown,
+  env: Env = Deno.env.toObject(),
+): LogConfig {
+  const raw = expectObject(interpolateEnv(value, env), "config");
+  const result: LogConfig = { handlers: {}, loggers: {}, filters: {} };
+
+  const filters = expectObject(raw.filters ?? {}, "filters");
+  for (const name of Object.keys(filters)) {
+    result.filters![name] = buildFilter(filters[name], `filters.${name}`);
+  }
+
+  const handlers = expectObject(raw.handlers ?? {}, "handlers");
+  for (const name of Object.keys(handlers)) {
+    const path = `handlers.${name}`;
+    const { filters: filterNames, ...handlerValue } = expectObject(
+      handlers[name],
+      path,
+    );
+    const { level: _level, ...definition } = handlerValue;
+    const handlerConfig: HandlerConfig = {
+      handler: buildHandler(handlerValue, path),
+      // level and filters can change without replacing the handler
+      signature: JSON.stringify(definition),
+    };
+
+    if (filterNames !== undefined) {
+      handlerConfig.filters = expectStringArray(
+        filterNames,
+        `${path}.filters`,
+      );
+    }
+    result.handlers![name] = handlerConfig;
+  }
+
+  const loggers = expectObject(raw.loggers ?? {}, "loggers");
+  for (const name of Object.keys(loggers)) {
+    result.loggers![name] = buildLogger(loggers[name], `loggers.${name}`);
+  }
+
+  applyEnvLevels(result.loggers!, env);
+
+  if (raw.redact !== undefined) {
+    result.redact = buildRedaction(raw.redact, "redact");
+  }
+
+  if (raw.fallbackHandler !== undefined) {
+    if (
+      typeof raw.fallbackHandler !== "string" ||
+      !(raw.fallbackHandler in result.handlers! ||
+        raw.fallbackHandler === "default")
+    ) {
+      throw new ConfigError(
+        `fallbackHandler must be the name of a handler, got ${
+          JSON.stringify(raw.fallbackHandler)
+        }`,
+      );
+    }
+    result.fallbackHandler = raw.fallbackHandler;
+  }
+
+  // catch typos before `setup` silently ignores them
+  for (const [name, logger] of Object.entries(result.loggers!)) {
+    for (const handlerName of logger.handlers || []) {
+      if (!(handlerName in result.handlers!) && handlerName !== "default") {
+        throw new ConfigError(
+          `loggers.${name}.handlers references unknown handler "${handlerName}"`,
+        );
+      }
+    }
+    checkFilterNames(result, logger.filters, `loggers.${name}.filters`);
+  }
+  for (const [name, handler] of Object.entries(result.handlers!)) {
+    checkFilterNames(
+      result,
+      (handler as HandlerConfig).filters,
+      `handlers.${name}.filters`,
+    );
+  }
+
+  return result;
+}
+
+/** Reads a JSON (`.json`) or YAML (`.yaml`, `.yml`) file and builds a
+ * `LogConfig` from it.
+ */
+export async function loadConfigFile(
+  path: string,
+  env: Env = Deno.env.toObject(),
+): Promise<LogConfig> {
+  const text = await Deno.readTextFile(path);
+  let value: unknown;
+
+  try {
+    value = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+  } catch (err) {
+    throw new ConfigError(`cannot parse ${path}: ${err.message}`);
+  }
+
+  return buildConfig(value, env);
+}
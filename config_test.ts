@@ -0,0 +1,152 @@
+import { assert, assertEquals, assertThrows } from "./test_deps.ts";
+import { buildConfig, ConfigError, interpolateEnv } from "./config.ts";
+import { ConsoleHandler } from "./handlers.ts";
+import { MemoryHandler } from "./handlers/memory.handler.ts";
+import type { HandlerConfig } from "./mod.ts";
+
+Deno.test("interpolateEnvReplacesVariables", function (): void {
+  const env = { TOKEN: "secret" };
+
+  assertEquals(
+    interpolateEnv({ a: ["${TOKEN}", "${MISSING:-fallback}"] }, env),
+    { a: ["secret", "fallback"] },
+  );
+  assertThrows(
+    () => interpolateEnv({ a: "${MISSING}" }, env),
+    ConfigError,
+    "config.a references environment variable MISSING which is not set",
+  );
+});
+
+Deno.test("buildConfigCreatesHandlersAndLoggers", function (): void {
+  const config = buildConfig({
+    handlers: {
+      console: {
+        type: "console",
+        level: "DEBUG",
+        formatter: "[{loggerName}] {msg}",
+        filters: ["noHealth"],
+      },
+    },
+    filters: {
+      noHealth: { type: "msg", pattern: "^(?!healthcheck)" },
+    },
+    loggers: {
+      default: { level: "INFO", handlers: ["console"] },
+      "app.db": { handlers: ["console"], propagate: false },
+    },
+  }, { UZULOG_LEVEL: "WARNING", UZULOG_LEVEL_app_db: "DEBUG" });
+
+  const handlerConfig = config.handlers!.console as HandlerConfig;
+  assert(handlerConfig.handler instanceof ConsoleHandler);
+  assertEquals(handlerConfig.handler.levelName, "DEBUG");
+  assertEquals(handlerConfig.filters, ["noHealth"]);
+  assertEquals(config.loggers!.default.level, "WARNING");
+  assertEquals(config.loggers!["app.db"], {
+    level: "DEBUG",
+    handlers: ["console"],
+    propagate: false,
+  });
+});
+
+Deno.test("buildConfigReportsInvalidValues", function (): void {
+  assertThrows(
+    () => buildConfig({ handlers: { a: { type: "smoke" } } }, {}),
+    ConfigError,
+    "handlers.a.type must be one of",
+  );
+  assertThrows(
+    () => buildConfig({ handlers: { a: { type: "file" } } }, {}),
+    ConfigError,
+    'handlers.a.filename is required for "file"',
+  );
+  assertThrows(
+    () => buildConfig({ loggers: { a: { level: "LOUD" } } }, {}),
+    ConfigError,
+    "loggers.a.level must be one of",
+  );
+  assertThrows(
+    () => buildConfig({ loggers: { a: { handlers: ["nope"] } } }, {}),
+    ConfigError,
+    'loggers.a.handlers references unknown handler "nope"',
+  );
+  assertThrows(
+    () => buildConfig({ loggers: { a: { filters: ["nope"] } } }, {}),
+    ConfigError,
+    'loggers.a.filters references unknown filter "nope"',
+  );
+  assertThrows(
+    () =>
+      buildConfig({
+        handlers: { a: { type: "console", filters: ["nope"] } },
+      }, {}),
+    ConfigError,
+    'handlers.a.filters references unknown filter "nope"',
+  );
+  assertThrows(
+    () =>
+      buildConfig({
+        filters: { a: { type: "category", allow: "payments" } },
+      }, {}),
+    ConfigError,
+    "filters.a.allow must be an array of strings",
+  );
+  assertThrows(
+    () => buildConfig({ filters: { a: { type: "loggerName" } } }, {}),
+    ConfigError,
+    "filters.a.names must be an array of strings",
+  );
+  assertThrows(
+    () => buildConfig({ filters: { a: { type: "msg", pattern: "(" } } }, {}),
+    ConfigError,
+    "filters.a.pattern: ",
+  );
+  assertThrows(
+    () => buildConfig({ filters: { a: { type: "fields" } } }, {}),
+    ConfigError,
+    "filters.a.match must be an object",
+  );
+});
+
+Deno.test("buildConfigConvertsHandlerOptions", function (): void {
+  const config = buildConfig({
+    handlers: {
+      console: { type: "console", noColor: "${NO_COLOR}" },
+      buffer: {
+        type: "memory",
+        capacity: "${CAPACITY}",
+        target: { type: "console" },
+      },
+    },
+  }, { NO_COLOR: "false", CAPACITY: "50" });
+
+  const handlerConfig = config.handlers!.console as HandlerConfig;
+  assertEquals(handlerConfig.handler.noColor, false);
+  assert(
+    (config.handlers!.buffer as HandlerConfig).handler instanceof
+      MemoryHandler,
+  );
+
+  const file = { type: "rotatingFile", filename: "app.log", maxBackupCount: 3 };
+  assertThrows(
+    () => buildConfig({ handlers: { a: { ...file, maxBytes: "1 MB" } } }, {}),
+    ConfigError,
+    'handlers.a.maxBytes must be a number, got "1 MB"',
+  );
+  assertThrows(
+    () =>
+      buildConfig({
+        handlers: { a: { ...file, maxBytes: 1024, compress: "yes" } },
+      }, {}),
+    ConfigError,
+    'handlers.a.compress must be a boolean, got "yes"',
+  );
+  assertThrows(
+    () =>
+      buildConfig({
+        handlers: { a: { ...file, maxBytes: 1024, maxAge: "soon" } },
+      }, {}),
+    ConfigError,
+    "handlers.a.maxAge must be a duration",
+  );
+});
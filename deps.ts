@@ -8,6 +8,26 @@ export {
 
 export { existsSync, exists } from "https://deno.land/std@0.62.0/fs/exists.ts";
 
-export { BufWriterSync } from "https://deno.land/std@0.62.0/io/bufio.ts";
+export {
+  basename,
+  dirname,
+  join,
+} from "https://deno.land/std@0.62.0/path/mod.ts";
+
+export { parse as parseYaml } from "https://deno.land/std@0.62.0/encoding/yaml.ts";
+
+export {
+  AssertionError,
+  equal,
+} from "https://deno.land/std@0.62.0/testing/asserts.ts";
+
+export {
+  BufWriterSync,
+  readLines,
+} from "https://deno.land/std@0.62.0/io/bufio.ts";
+
+export { parse as parseFlags } from "https://deno.land/std@0.62.0/flags/mod.ts";
+
+export { gzip, gunzip } from "https://deno.land/x/compress@v0.3.3/mod.ts";
 
 export { dateToString } from "https://raw.githubusercontent.com/Uzumachi02/date-format-deno/master/mod.ts";
@@ -0,0 +1,76 @@
+import type { LogRecord } from "./logger.ts";
+
+/** Returns `false` to drop a record */
+export type LogFilter = (logRecord: LogRecord) => boolean;
+
+export interface CategoryFilterOptions {
+  /** Only records of these categories pass */
+  allow?: string[];
+  /** Records of these categories are dropped */
+  deny?: string[];
+}
+
+/** Filters on `logRecord.category`.  Records without a category only pass
+ * when there is no `allow` list.
+ */
+export function categoryFilter(options: CategoryFilterOptions): LogFilter {
+  const allow = options.allow ? new Set(options.allow) : null;
+  const deny = new Set(options.deny || []);
+
+  return (logRecord: LogRecord): boolean => {
+    const category = logRecord.category;
+
+    if (category === null) {
+      return allow === null;
+    }
+    if (deny.has(category)) {
+      return false;
+    }
+    return allow === null || allow.has(category);
+  };
+}
+
+/** Passes records of the given loggers and their dotted descendants, so
+ * "app.db" matches "app.db" and "app.db.pool" but not "app.dbx".
+ */
+export function loggerNameFilter(names: string | string[]): LogFilter {
+  const prefixes = Array.isArray(names) ? names : [names];
+
+  return (logRecord: LogRecord): boolean =>
+    prefixes.some((prefix) =>
+      logRecord.loggerName === prefix ||
+      logRecord.loggerName.startsWith(prefix + ".")
+    );
+}
+
+/** Passes records whose message (without colors) matches `pattern` */
+export function msgFilter(pattern: RegExp): LogFilter {
+  return (logRecord: LogRecord): boolean => {
+    // a global regex keeps its position between calls
+    pattern.lastIndex = 0;
+    return pattern.test(logRecord.clearMsg);
+  };
+}
+
+/** Passes records whose bound fields are equal to every value of `match` */
+export function fieldsFilter(match: Record<string, unknown>): LogFilter {
+  const entries = Object.entries(match);
+
+  return (logRecord: LogRecord): boolean => {
+    const fields = logRecord.fields;
+    return entries.every(([key, value]) => fields[key] === value);
+  };
+}
+
+/** Inverts a filter, e.g. `notFilter(msgFilter(/healthcheck/))` */
+export function notFilter(filter: LogFilter): LogFilter {
+  return (logRecord: LogRecord): boolean => !filter(logRecord);
+}
+
+/** `true` when every filter passes the record */
+export function applyFilters(
+  filters: LogFilter[],
+  logRecord: LogRecord,
+): boolean {
+  return filters.every((filter) => filter(logRecord));
+}
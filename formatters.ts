@@ -0,0 +1,119 @@
+import type { LogRecord } from "./logger.ts";
+import type { FormatterFunction } from "./handlers.ts";
+import {
+  isSerializedError,
+  SerializedError,
+  StackFrame,
+  toSerializable,
+} from "./util/serialize.ts";
+import { asString } from "./util/helpers.ts";
+
+export interface JsonFormatterOptions {
+  /** Static fields merged into every line, e.g. `{ service: "api" }` */
+  extra?: Record<string, unknown>;
+  /** Include the raw `args` passed to the logger (default `true`) */
+  includeArgs?: boolean;
+}
+
+/** Builds the plain object written by `jsonFormatter` */
+export function recordToObject(
+  logRecord: LogRecord,
+  options: JsonFormatterOptions = {},
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {
+    ...options.extra,
+    datetime: logRecord.datetime.toISOString(),
+    level: logRecord.level,
+    levelName: logRecord.levelName,
+    loggerName: logRecord.loggerName,
+    category: logRecord.category,
+    msg: logRecord.clearMsg,
+    fields: logRecord.fields,
+  };
+
+  if (logRecord.error) {
+    result.error = logRecord.error;
+  }
+
+  if (logRecord.caller) {
+    result.caller = logRecord.caller;
+  }
+
+  if (options.includeArgs ?? true) {
+    result.args = logRecord.args;
+  }
+
+  return result;
+}
+
+/** Returns a formatter that writes each record as a single JSON line
+ * (NDJSON), suitable for `ConsoleHandler`, `FileHandler` and
+ * `RotatingFileHandler`.
+ */
+export function jsonFormatter(
+  options: JsonFormatterOptions = {},
+): FormatterFunction {
+  return (logRecord: LogRecord): string =>
+    JSON.stringify(toSerializable(recordToObject(logRecord, options)));
+}
+
+export interface FormatErrorOptions {
+  /** Start with the `Name: message` line (default `true`) */
+  header?: boolean;
+}
+
+function formatFrame(frame: StackFrame): string {
+  const location = `${frame.file}:${frame.line}:${frame.column}`;
+  return frame.func ? `at ${frame.func} (${location})` : `at ${location}`;
+}
+
+function renderError(
+  error: SerializedError,
+  indent: string,
+  header: boolean,
+  lines: string[],
+): void {
+  if (header) {
+    lines.push(`${indent}${error.name}: ${error.message}`);
+  }
+
+  for (const frame of error.stack) {
+    lines.push(`${indent}    ${formatFrame(frame)}`);
+  }
+
+  for (const [key, value] of Object.entries(error.props || {})) {
+    lines.push(`${indent}    ${key}: ${asString(value)}`);
+  }
+
+  (error.errors || []).forEach((child, i): void => {
+    if (isSerializedError(child)) {
+      lines.push(`${indent}  [${i}] ${child.name}: ${child.message}`);
+      renderError(child, indent + "    ", false, lines);
+    } else {
+      lines.push(`${indent}  [${i}] ${asString(child)}`);
+    }
+  });
+
+  if (error.cause !== undefined) {
+    if (isSerializedError(error.cause)) {
+      lines.push(
+        `${indent}Caused by: ${error.cause.name}: ${error.cause.message}`,
+      );
+      renderError(error.cause, indent, false, lines);
+    } else {
+      lines.push(`${indent}Caused by: ${asString(error.cause)}`);
+    }
+  }
+}
+
+/** Renders a `SerializedError` like a V8 stack trace, followed by custom
+ * properties, `AggregateError` children and the `cause` chain.
+ */
+export function formatError(
+  error: SerializedError,
+  options: FormatErrorOptions = {},
+): string {
+  const lines: string[] = [];
+  renderError(error, "", options.header ?? true, lines);
+  return lines.join("\n");
+}
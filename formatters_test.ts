@@ -0,0 +1,124 @@
+import { assert, assertEquals } from "./test_deps.ts";
+import { LogLevels } from "./levels.ts";
+import { BaseHandler } from "./handlers.ts";
+import { LogRecord } from "./logger.ts";
+import { formatError, jsonFormatter } from "./formatters.ts";
+import { safeStringify, serializeError } from "./util/serialize.ts";
+
+class TestHandler extends BaseHandler {
+  public messages: string[] = [];
+
+  public log(str: string): void {
+    this.messages.push(str);
+  }
+}
+
+Deno.test("jsonFormatterWritesOneLinePerRecord", function (): void {
+  const handler = new TestHandler("DEBUG", {
+    formatter: jsonFormatter({ extra: { service: "api" } }),
+  });
+
+  handler.handle(
+    new LogRecord({
+      msg: "Hello, world! 1",
+      args: ["Hello, world!", 1],
+      level: LogLevels.INFO,
+      loggerName: "default",
+      category: "http",
+    }),
+  );
+
+  assertEquals(handler.messages.length, 1);
+  assertEquals(handler.messages[0].includes("\n"), false);
+
+  const parsed = JSON.parse(handler.messages[0]);
+  assertEquals(parsed.service, "api");
+  assertEquals(parsed.msg, "Hello, world! 1");
+  assertEquals(parsed.level, LogLevels.INFO);
+  assertEquals(parsed.levelName, "INFO");
+  assertEquals(parsed.loggerName, "default");
+  assertEquals(parsed.category, "http");
+  assertEquals(parsed.args, ["Hello, world!", 1]);
+  assertEquals(typeof parsed.datetime, "string");
+});
+
+Deno.test("safeStringifyHandlesExoticValues", function (): void {
+  const circular: Record<string, unknown> = { name: "loop" };
+  circular.self = circular;
+  const shared = { a: 1 };
+
+  const parsed = JSON.parse(safeStringify({
+    circular,
+    shared: [shared, shared],
+    big: BigInt(10),
+    map: new Map<string, unknown>([["key", 1]]),
+    set: new Set([1, 2]),
+    date: new Date(0),
+    error: new TypeError("boom"),
+  }));
+
+  assertEquals(parsed.circular, { name: "loop", self: "[Circular]" });
+  assertEquals(parsed.shared, [{ a: 1 }, { a: 1 }]);
+  assertEquals(parsed.big, "10");
+  assertEquals(parsed.map, { key: 1 });
+  assertEquals(parsed.set, [1, 2]);
+  assertEquals(parsed.date, "1970-01-01T00:00:00.000Z");
+  assertEquals(parsed.error.name, "TypeError");
+  assertEquals(parsed.error.message, "boom");
+});
+
+Deno.test("serializeErrorKeepsFramesCausesAndChildren", function (): void {
+  const root = new RangeError("root");
+  const err = new Error("request failed") as Error & {
+    cause: unknown;
+    status: number;
+  };
+  err.cause = root;
+  err.status = 503;
+  // shaped like an AggregateError, whose children are not enumerable
+  const aggregate = new Error("all failed");
+  aggregate.name = "AggregateError";
+  Object.defineProperty(aggregate, "errors", { value: [err, "plain"] });
+
+  const serialized = serializeError(aggregate);
+  assertEquals(serialized.name, "AggregateError");
+  assert(serialized.stack.length > 0);
+  assert(serialized.stack[0].file.endsWith("formatters_test.ts"));
+  assertEquals(serialized.errors!.length, 2);
+
+  const child = serialized.errors![0] as ReturnType<typeof serializeError>;
+  assertEquals(child.props, { status: 503 });
+  assertEquals((child.cause as { name: string }).name, "RangeError");
+
+  const lines = formatError(serialized).split("\n");
+  assertEquals(lines[0], "AggregateError: all failed");
+  assert(/^    at .*formatters_test\.ts:\d+:\d+\)?$/.test(lines[1]));
+  assert(lines.includes("  [0] Error: request failed"));
+  assert(lines.includes("      status: 503"));
+  assert(lines.includes("  Caused by: RangeError: root"));
+  assert(lines.includes("  [1] plain"));
+});
+
+Deno.test("errorsAreRenderedByHandlersAndNestedInJson", function (): void {
+  const text = new TestHandler("DEBUG");
+  const json = new TestHandler("DEBUG", { formatter: jsonFormatter() });
+  const err = new TypeError("boom");
+  const record = new LogRecord({
+    msg: "failed TypeError: boom",
+    args: ["failed", err],
+    level: LogLevels.ERROR,
+    loggerName: "default",
+  });
+
+  text.handle(record);
+  json.handle(record);
+
+  const lines = text.messages[0].split("\n");
+  assertEquals(lines[0], "ERROR failed TypeError: boom");
+  assert(lines.slice(1).every((line) => line.startsWith("    at ")));
+
+  const parsed = JSON.parse(json.messages[0]);
+  assertEquals(parsed.error.name, "TypeError");
+  assertEquals(parsed.error.message, "boom");
+  assertEquals(typeof parsed.error.stack[0].line, "number");
+});
@@ -1,26 +1,132 @@
 // Copyright 2018-2020 the Deno authors. All rights reserved. MIT license.
-import { getLevelByName, LevelName, LogLevels } from "./levels.ts";
+import {
+  getLevelByName,
+  getLevelStyle,
+  LevelName,
+  LogLevels,
+} from "./levels.ts";
 import type { LogRecord } from "./logger.ts";
+import { asString } from "./util/helpers.ts";
+import { applyFilters, LogFilter } from "./filters.ts";
+import { formatError } from "./formatters.ts";
+import type { StackFrame } from "./util/serialize.ts";
 import {
-  red,
-  yellow,
-  blue,
-  bold,
   stripColor,
   existsSync,
   exists,
   BufWriterSync,
   dateToString,
+  basename,
+  dirname,
+  join,
+  gzip,
 } from "./deps.ts";
+import {
+  getZonedParts,
+  zonedTimeToTimestamp,
+  formatZonedParts,
+  parseDuration,
+} from "./util/time.ts";
 
 const DEFAULT_FORMATTER = "{levelName} {msg}";
-type FormatterFunction = (logRecord: LogRecord) => string;
+const CALLER_TOKENS = ["file", "line", "column", "func"];
+export type FormatterFunction = (logRecord: LogRecord) => string;
 type LogMode = "a" | "w" | "x";
+type RotationWhen = "minute" | "hour" | "day" | "weekday" | "midnight";
 
 export interface HandlerOptions {
   formatter?: string | FormatterFunction;
   datetimeFormat?: string;
   noColor?: boolean;
+  filters?: LogFilter[];
+  /** Record the call site of each record, for `{file}`, `{line}`,
+   * `{column}` and `{func}`
+   */
+  captureCaller?: boolean;
+}
+
+export interface HandlerHealth {
+  /** Records passed to `handle`, including those it skipped */
+  received: number;
+  failures: number;
+  /** Failures since the last record handled without error */
+  consecutiveFailures: number;
+  lastError: unknown;
+  lastFailureAt: Date | null;
+}
+
+/** Called when a handler throws, its `handle` promise rejects or its
+ * background work fails, e.g. sending a batch.  The record is `null` for
+ * background work, the handler and the record are `null` when a logger
+ * failed before a record reached any handler, e.g. a filter threw.
+ */
+export type HandlerErrorCallback = (
+  error: unknown,
+  handler: BaseHandler | null,
+  logRecord: LogRecord | null,
+) => void;
+
+/** The same failure of the same handler is reported once a minute */
+const REPORT_INTERVAL = 60 * 1000;
+const reportedErrors = new Map<string, { time: number; repeated: number }>();
+
+/** Default `HandlerErrorCallback`, writes to stderr without repeating the
+ * same failure over and over
+ */
+export function reportHandlerError(
+  error: unknown,
+  handler: BaseHandler | null,
+  logRecord: LogRecord | null = null,
+): void {
+  const name = handler ? handler.constructor.name : "Logger";
+  const message = error instanceof Error ? error.message : String(error);
+  const key = `${name}:${message}`;
+  const now = Date.now();
+  const entry = reportedErrors.get(key);
+
+  if (entry && now - entry.time < REPORT_INTERVAL) {
+    entry.repeated++;
+    return;
+  }
+
+  if (reportedErrors.size > 1000) {
+    reportedErrors.clear();
+  }
+  reportedErrors.set(key, { time: now, repeated: 0 });
+
+  const repeated = entry?.repeated
+    ? ` (${entry.repeated} more times since the last report)`
+    : "";
+  const action = !handler
+    ? " to log a record"
+    : logRecord
+    ? " to handle a record"
+    : "";
+  console.error(`${name} failed${action}${repeated}:`, error);
+}
+
+let handlerErrorCallback: HandlerErrorCallback = reportHandlerError;
+
+/** Installs the callback for handler failures, `null` restores the default
+ * stderr reporter.  Called by `setup` with `LogConfig.onHandlerError`.
+ */
+export function setHandlerErrorCallback(
+  callback: HandlerErrorCallback | null,
+): void {
+  handlerErrorCallback = callback || reportHandlerError;
+}
+
+/** Passes a failure to the installed `HandlerErrorCallback` */
+export function notifyHandlerError(
+  error: unknown,
+  handler: BaseHandler | null,
+  logRecord: LogRecord | null,
+): void {
+  try {
+    handlerErrorCallback(error, handler, logRecord);
+  } catch (err) {
+    console.error(err);
+  }
 }
 
 interface IFormatResult {
@@ -39,6 +145,16 @@ export class BaseHandler {
   formatter: string | FormatterFunction;
   datetimeFormat: string;
   noColor: boolean = true;
+  filters: LogFilter[];
+  captureCaller: boolean;
+  #pending = new Set<Promise<void>>();
+  #health: HandlerHealth = {
+    received: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    lastError: null,
+    lastFailureAt: null,
+  };
 
   constructor(levelName: LevelName, options: HandlerOptions = {}) {
     this.level = getLevelByName(levelName);
@@ -46,19 +162,88 @@ export class BaseHandler {
 
     this.formatter = options.formatter || DEFAULT_FORMATTER;
     this.datetimeFormat = options.datetimeFormat || "ABSOLUTETIME";
+    this.filters = options.filters || [];
+    this.captureCaller = options.captureCaller ?? false;
 
     if (options.noColor !== undefined) {
       this.noColor = options.noColor;
     }
   }
 
-  handle(logRecord: LogRecord): void {
+  /** May return a promise for work that completes later, loggers hand
+   * records over through `receive` so that `flush` waits for it.
+   */
+  handle(logRecord: LogRecord): void | Promise<void> {
     if (this.level > logRecord.level) return;
+    if (!this.filter(logRecord)) return;
 
     const msg = this.format(logRecord);
     return this.log(this.noColor ? stripColor(msg) : msg);
   }
 
+  get health(): HandlerHealth {
+    return { ...this.#health };
+  }
+
+  /** Calls `handle` and keeps a returned promise until it settles.  Errors
+   * never reach the logging call, they go to the `HandlerErrorCallback` so
+   * that the other handlers still get the record.
+   */
+  receive(logRecord: LogRecord): void {
+    let result: void | Promise<void>;
+    this.#health.received++;
+
+    try {
+      result = this.handle(logRecord);
+    } catch (err) {
+      this.reportFailure(err, logRecord);
+      return;
+    }
+
+    if (result instanceof Promise) {
+      const pending: Promise<void> = result.then(
+        (): void => this.onSuccess(),
+        (err): void => this.reportFailure(err, logRecord),
+      ).then((): void => {
+        this.#pending.delete(pending);
+      });
+      this.#pending.add(pending);
+    } else {
+      this.onSuccess();
+    }
+  }
+
+  private onSuccess(): void {
+    this.#health.consecutiveFailures = 0;
+  }
+
+  /** Counts a failure in `health` and passes it to the
+   * `HandlerErrorCallback`, subclasses report failures of their background
+   * work here with `logRecord` left out
+   */
+  protected reportFailure(
+    error: unknown,
+    logRecord: LogRecord | null = null,
+  ): void {
+    this.#health.failures++;
+    this.#health.consecutiveFailures++;
+    this.#health.lastError = error;
+    this.#health.lastFailureAt = new Date();
+
+    notifyHandlerError(error, this, logRecord);
+  }
+
+  /** Resolves once the records handled so far are written or sent.  The
+   * default waits for the promises returned by `handle`.
+   */
+  flush(): void | Promise<void> {
+    return Promise.all(this.#pending).then((): void => {});
+  }
+
+  filter(logRecord: LogRecord): boolean {
+    return applyFilters(this.filters, logRecord);
+  }
+
   formatAndPrefix(logRecord: LogRecord): IFormatResult {
     if (this.formatter instanceof Function) {
       return { msg: this.formatter(logRecord) };
@@ -80,16 +265,32 @@ export class BaseHandler {
     return result;
   }
 
+  /** Tokens name record properties, `{error}` prints the whole trace.  A
+   * field bound with `logger.child()` fills in for other names and for a
+   * record property of the same name that is empty, e.g. `{category}`.
+   */
   formatCustom(format: string, logRecord: LogRecord): string {
     return format.replace(/{(\w+)}/g, (match, p1): string => {
-      let value: string | number | unknown[] | Date | null = null;
+      let value: unknown = null;
 
       if (p1 === "datetime") {
         value = dateToString(this.datetimeFormat, logRecord.datetime);
-      } else {
+      } else if (CALLER_TOKENS.includes(p1)) {
+        const caller = logRecord.caller;
+        value = caller && p1 === "func"
+          ? caller.func ?? "<anonymous>"
+          : caller?.[p1 as keyof StackFrame];
+      } else if (p1 === "error") {
+        value = logRecord.error && formatError(logRecord.error);
+      } else if (p1 in logRecord) {
         value = logRecord[p1 as keyof LogRecord];
       }
 
+      if (value == null) {
+        const field = logRecord.fields[p1];
+        value = field == null ? null : asString(field);
+      }
+
       // do not interpolate missing values
       if (value == null) {
         return match;
@@ -113,7 +314,25 @@ export class BaseHandler {
       return this.formatter(logRecord);
     }
 
-    return this.formatCustom(this.formatter, logRecord);
+    return this.formatCustom(this.formatter, logRecord) +
+      this.formatErrorDetails(logRecord);
+  }
+
+  /** Stack trace, properties and causes of the logged error on the lines
+   * following the message, empty when there is nothing to add or the
+   * formatter prints them with `{error}`
+   */
+  formatErrorDetails(logRecord: LogRecord): string {
+    if (
+      !logRecord.error ||
+      (typeof this.formatter === "string" &&
+        this.formatter.includes("{error}"))
+    ) {
+      return "";
+    }
+
+    const details = formatError(logRecord.error, { header: false });
+    return details ? "\n" + details : "";
   }
 
   log(_msg: string): void {}
@@ -131,33 +350,22 @@ export class ConsoleHandler extends BaseHandler {
   }
 
   format(logRecord: LogRecord): string {
-    if (this.noColor) {
+    // function formatters (e.g. `jsonFormatter`) own their whole output
+    if (this.noColor || this.formatter instanceof Function) {
       return super.format(logRecord);
     }
 
-    const formatAndPrefix = this.formatAndPrefix(logRecord);
-    let msg = "";
+    const { prefix = "", msg } = this.formatAndPrefix(logRecord);
+    const { color, colorMsg } = getLevelStyle(logRecord.level);
+    const details = this.formatErrorDetails(logRecord);
 
-    switch (logRecord.level) {
-      case LogLevels.INFO:
-        msg = (formatAndPrefix.prefix ? blue(formatAndPrefix.prefix) : "") +
-          formatAndPrefix.msg;
-        break;
-      case LogLevels.WARNING:
-        msg = (formatAndPrefix.prefix ? yellow(formatAndPrefix.prefix) : "") +
-          formatAndPrefix.msg;
-        break;
-      case LogLevels.ERROR:
-        msg = red(formatAndPrefix.prefix + formatAndPrefix.msg);
-        break;
-      case LogLevels.CRITICAL:
-        msg = bold(red(formatAndPrefix.prefix + formatAndPrefix.msg));
-        break;
-      default:
-        break;
+    if (!color) {
+      return prefix + msg + details;
     }
-
-    return msg;
+    if (colorMsg) {
+      return color(prefix + msg) + details;
+    }
+    return (prefix ? color(prefix) : "") + msg + details;
   }
 
   log(msg: string): void {
@@ -236,12 +444,129 @@ export class FileHandler extends WriterHandler {
   }
 }
 
-interface RotatingFileHandlerOptions extends FileHandlerOptions {
+interface BackupRetentionOptions {
+  /** gzip rotated files in the background, backups get a `.gz` suffix */
+  compress?: boolean;
+  /** Remove backups older than this, e.g. `"7d"` or a number of ms */
+  maxAge?: number | string;
+}
+
+interface RotatingFileHandlerOptions
+  extends FileHandlerOptions, BackupRetentionOptions {
   maxBytes: number;
   maxBackupCount: number;
 }
 
-export class RotatingFileHandler extends FileHandler {
+const GZIP_EXT = ".gz";
+
+/** Matches what `TimedRotatingFileHandler` appends to backup names,
+ * captures the date and the counter of backups sharing a date
+ */
+export const TIMED_BACKUP_SUFFIX =
+  /^(\d{4}-\d{2}-\d{2}(?:_\d{2}(?:-\d{2})?)?)(?:\.(\d+))?(?:\.gz)?$/;
+
+/** Orders suffixes matching `TIMED_BACKUP_SUFFIX` oldest first, by date
+ * and then by counter, whether they are compressed or not
+ */
+export function compareTimedSuffixes(a: string, b: string): number {
+  const [, dateA = a, counterA = 0] = TIMED_BACKUP_SUFFIX.exec(a) || [];
+  const [, dateB = b, counterB = 0] = TIMED_BACKUP_SUFFIX.exec(b) || [];
+
+  if (dateA !== dateB) {
+    return dateA < dateB ? -1 : 1;
+  }
+  return Number(counterA) - Number(counterB);
+}
+
+/** Compresses `path` to `path.gz` and removes the original.  A rotation
+ * may move the file away while it is read or written, so the result only
+ * replaces the original if `current()` still holds afterwards.
+ */
+async function gzipFile(path: string, current: () => boolean): Promise<void> {
+  const temp = path + GZIP_EXT + ".tmp";
+  await Deno.writeFile(temp, gzip(await Deno.readFile(path)));
+
+  // no await from here on, so no rotation can run in between
+  if (current() && existsSync(path)) {
+    Deno.renameSync(temp, path + GZIP_EXT);
+    Deno.removeSync(path);
+  } else {
+    await Deno.remove(temp);
+  }
+}
+
+function removeExpiredSync(paths: string[], maxAge: number): void {
+  const minTime = Date.now() - maxAge;
+
+  for (const path of paths) {
+    if (!existsSync(path)) {
+      continue;
+    }
+
+    const mtime = Deno.statSync(path).mtime;
+    if (mtime && mtime.getTime() < minTime) {
+      Deno.removeSync(path);
+    }
+  }
+}
+
+/** Compresses and expires the backups of the rotating file handlers */
+export abstract class BackupFileHandler extends FileHandler {
+  #compress: boolean;
+  #maxAge: number | null;
+  #rotations = 0;
+  #maintenance: Promise<void> = Promise.resolve();
+
+  constructor(
+    levelName: LevelName,
+    options: FileHandlerOptions & BackupRetentionOptions,
+  ) {
+    super(levelName, options);
+    this.#compress = options.compress ?? false;
+    this.#maxAge = options.maxAge != null
+      ? parseDuration(options.maxAge)
+      : null;
+  }
+
+  /** Returns existing backups of the log file, oldest first */
+  abstract getBackupFiles(): string[];
+
+  /** Compresses and expires backups outside of the logging call, must be
+   * called after every rotation
+   */
+  scheduleMaintenance(): void {
+    const rotation = ++this.#rotations;
+    const current = (): boolean => this.#rotations === rotation;
+
+    if (!this.#compress && this.#maxAge === null) {
+      return;
+    }
+
+    // a later rotation schedules another run, which takes over
+    this.#maintenance = this.#maintenance.then(async () => {
+      if (this.#compress) {
+        for (const path of this.getBackupFiles()) {
+          if (!current()) {
+            return;
+          }
+          if (!path.endsWith(GZIP_EXT)) {
+            await gzipFile(path, current);
+          }
+        }
+      }
+      if (this.#maxAge !== null && current()) {
+        removeExpiredSync(this.getBackupFiles(), this.#maxAge);
+      }
+    }).catch((err): void => this.reportFailure(err));
+  }
+
+  async destroy(): Promise<void> {
+    await super.destroy();
+    await this.#maintenance;
+  }
+}
+
+export class RotatingFileHandler extends BackupFileHandler {
   #maxBytes: number;
   #maxBackupCount: number;
   #currentFileSize = 0;
@@ -267,22 +592,27 @@ export class RotatingFileHandler extends FileHandler {
       // Remove old backups too as it doesn't make sense to start with a clean
       // log file, but old backups
       for (let i = 1; i <= this.#maxBackupCount; i++) {
-        if (await exists(this._filename + "." + i)) {
-          await Deno.remove(this._filename + "." + i);
+        for (const backup of this.getBackupVariants(i)) {
+          if (await exists(backup)) {
+            await Deno.remove(backup);
+          }
         }
       }
     } else if (this._mode === "x") {
       // Throw if any backups also exist
       for (let i = 1; i <= this.#maxBackupCount; i++) {
-        if (await exists(this._filename + "." + i)) {
-          this.destroy();
-          throw new Deno.errors.AlreadyExists(
-            "Backup log file " + this._filename + "." + i + " already exists",
-          );
+        for (const backup of this.getBackupVariants(i)) {
+          if (await exists(backup)) {
+            this.destroy();
+            throw new Deno.errors.AlreadyExists(
+              "Backup log file " + backup + " already exists",
+            );
+          }
         }
       }
     } else {
       this.#currentFileSize = (await Deno.stat(this._filename)).size;
+      this.scheduleMaintenance();
     }
   }
 
@@ -303,16 +633,230 @@ export class RotatingFileHandler extends FileHandler {
     Deno.close(this._file!.rid);
 
     for (let i = this.#maxBackupCount - 1; i >= 0; i--) {
-      const source = this._filename + (i === 0 ? "" : "." + i);
+      const source = i === 0 ? this._filename : this._filename + "." + i;
       const dest = this._filename + "." + (i + 1);
+      // a backup may still be waiting for compression, so whichever variant
+      // exists is moved and keeps its extension
+      const exts = (i === 0 ? [""] : ["", GZIP_EXT]).filter((ext) =>
+        existsSync(source + ext)
+      );
+
+      if (exts.length) {
+        for (const path of this.getBackupVariants(i + 1)) {
+          if (existsSync(path)) {
+            Deno.removeSync(path);
+          }
+        }
+      }
 
-      if (existsSync(source)) {
-        Deno.renameSync(source, dest);
+      for (const ext of exts) {
+        Deno.renameSync(source + ext, dest + ext);
       }
     }
 
     this._file = Deno.openSync(this._filename, this._openOptions);
     this._writer = this._file;
     this._buf = new BufWriterSync(this._file);
+
+    this.scheduleMaintenance();
+  }
+
+  /** Returns the plain and compressed names of backup number `index` */
+  getBackupVariants(index: number): string[] {
+    const backup = this._filename + "." + index;
+    return [backup, backup + GZIP_EXT];
+  }
+
+  getBackupFiles(): string[] {
+    const result: string[] = [];
+
+    for (let i = this.#maxBackupCount; i >= 1; i--) {
+      for (const path of this.getBackupVariants(i)) {
+        if (existsSync(path)) {
+          result.push(path);
+        }
+      }
+    }
+
+    return result;
+  }
+}
+
+interface TimedRotatingFileHandlerOptions
+  extends FileHandlerOptions, BackupRetentionOptions {
+  /** Unit of the rotation interval, default "midnight" */
+  when?: RotationWhen;
+  /** Number of `when` units between rotations, default 1 */
+  interval?: number;
+  /** Day of week for `when: "weekday"`, 0 (Sunday) - 6 (Saturday) */
+  weekday?: number;
+  /** IANA time zone used for midnight and backup names, default local */
+  timezone?: string;
+  maxBackupCount: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export class TimedRotatingFileHandler extends BackupFileHandler {
+  #when: RotationWhen;
+  #interval: number;
+  #weekday: number;
+  #timezone: string | undefined;
+  #maxBackupCount: number;
+  #periodStart = Date.now();
+  #rolloverAt = 0;
+
+  constructor(levelName: LevelName, options: TimedRotatingFileHandlerOptions) {
+    super(levelName, options);
+    this.#when = options.when || "midnight";
+    this.#interval = options.interval ?? 1;
+    this.#weekday = options.weekday ?? 0;
+    this.#timezone = options.timezone;
+    this.#maxBackupCount = options.maxBackupCount;
+  }
+
+  async setup(): Promise<void> {
+    if (this.#interval < 1) {
+      this.destroy();
+      throw new Error("interval cannot be less than 1");
+    }
+    if (this.#maxBackupCount < 1) {
+      this.destroy();
+      throw new Error("maxBackupCount cannot be less than 1");
+    }
+    if (this.#weekday < 0 || this.#weekday > 6) {
+      this.destroy();
+      throw new Error("weekday must be between 0 and 6");
+    }
+
+    const stat = this._mode === "a" && await exists(this._filename)
+      ? await Deno.stat(this._filename)
+      : null;
+
+    await super.setup();
+
+    if (this._mode === "w") {
+      for (const backup of this.getBackupFiles()) {
+        await Deno.remove(backup);
+      }
+    }
+
+    this.#periodStart = stat?.mtime?.getTime() ?? Date.now();
+    this.#rolloverAt = this.computeRollover(this.#periodStart);
+
+    // the process was not running when the existing file should have been
+    // rolled over, so do it before the first new record lands in it
+    if (stat && stat.size > 0 && Date.now() >= this.#rolloverAt) {
+      this.rotateLogFiles();
+    } else {
+      this.scheduleMaintenance();
+    }
+  }
+
+  log(msg: string): void {
+    if (Date.now() >= this.#rolloverAt) {
+      this.rotateLogFiles();
+    }
+
+    super.log(msg);
+  }
+
+  computeRollover(from: number): number {
+    switch (this.#when) {
+      case "minute":
+        return from + this.#interval * MINUTE;
+      case "hour":
+        return from + this.#interval * HOUR;
+      case "day":
+        return from + this.#interval * DAY;
+      default:
+        break;
+    }
+
+    const parts = getZonedParts(new Date(from), this.#timezone);
+    let days = this.#interval;
+
+    if (this.#when === "weekday") {
+      days = ((this.#weekday - parts.weekday + 7) % 7 || 7) +
+        (this.#interval - 1) * 7;
+    }
+
+    return zonedTimeToTimestamp(
+      parts.year,
+      parts.month,
+      parts.day + days,
+      0,
+      0,
+      this.#timezone,
+    );
+  }
+
+  rotateLogFiles(): void {
+    this._buf.flush();
+    Deno.close(this._file!.rid);
+
+    if (existsSync(this._filename)) {
+      Deno.renameSync(this._filename, this.getBackupName(this.#periodStart));
+    }
+
+    this._file = Deno.openSync(this._filename, this._openOptions);
+    this._writer = this._file;
+    this._buf = new BufWriterSync(this._file);
+
+    // always schedule from the current time, so several missed boundaries
+    // result in a single rotation
+    this.#periodStart = Date.now();
+    this.#rolloverAt = this.computeRollover(this.#periodStart);
+
+    const backups = this.getBackupFiles();
+    while (backups.length > this.#maxBackupCount) {
+      Deno.removeSync(backups.shift()!);
+    }
+
+    this.scheduleMaintenance();
+  }
+
+  getBackupName(periodStart: number): string {
+    const precision = this.#when === "minute" || this.#when === "hour"
+      ? this.#when
+      : "day";
+    const name = this._filename + "." + formatZonedParts(
+      getZonedParts(new Date(periodStart), this.#timezone),
+      precision,
+    );
+
+    let result = name;
+    for (
+      let i = 1;
+      existsSync(result) || existsSync(result + GZIP_EXT);
+      i++
+    ) {
+      result = name + "." + i;
+    }
+
+    return result;
+  }
+
+  getBackupFiles(): string[] {
+    const dir = dirname(this._filename);
+    const prefix = basename(this._filename) + ".";
+    const result: string[] = [];
+
+    for (const entry of Deno.readDirSync(dir)) {
+      if (
+        entry.isFile && entry.name.startsWith(prefix) &&
+        TIMED_BACKUP_SUFFIX.test(entry.name.slice(prefix.length))
+      ) {
+        result.push(entry.name);
+      }
+    }
+
+    return result
+      .sort((a, b) =>
+        compareTimedSuffixes(a.slice(prefix.length), b.slice(prefix.length))
+      )
+      .map((name) => join(dir, name));
   }
 }
@@ -0,0 +1,31 @@
+import { BaseHandler, HandlerOptions } from "../handlers.ts";
+import { LevelName } from "../levels.ts";
+import type { LogRecord } from "../logger.ts";
+import { stripColor } from "../deps.ts";
+
+/** Keeps every record it handles in memory, for tests that inspect what
+ * was logged.  See `captureLogs` in `testing.ts`.
+ */
+export class CaptureHandler extends BaseHandler {
+  records: LogRecord[] = [];
+
+  constructor(levelName: LevelName = "NOTSET", options?: HandlerOptions) {
+    super(levelName, options);
+  }
+
+  handle(logRecord: LogRecord): void {
+    if (this.level > logRecord.level) return;
+    if (!this.filter(logRecord)) return;
+
+    this.records.push(logRecord);
+  }
+
+  /** The captured records as they would be printed by this handler */
+  get messages(): string[] {
+    return this.records.map((record) => stripColor(this.format(record)));
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+}
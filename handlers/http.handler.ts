@@ -0,0 +1,223 @@
+import { BaseHandler, HandlerOptions } from "../handlers.ts";
+import { LevelName } from "../levels.ts";
+import type { LogRecord } from "../logger.ts";
+import { recordToObject } from "../formatters.ts";
+import { safeStringify } from "../util/serialize.ts";
+import { parseDuration } from "../util/time.ts";
+
+type OverflowPolicy = "dropOldest" | "dropNewest";
+
+export interface HttpHandlerOptions extends HandlerOptions {
+  url: string;
+  /** Default "POST" */
+  method?: string;
+  headers?: Record<string, string>;
+  /** "json" sends an array, "ndjson" one object per line, default "json" */
+  bodyFormat?: "json" | "ndjson";
+  /** Static fields merged into every record */
+  extra?: Record<string, unknown>;
+  /** Records per request, default 100 */
+  batchSize?: number;
+  /** Maximum time a record waits in the queue, default 1 second */
+  flushInterval?: number | string;
+  /** Records kept while the endpoint is slow or down, default 10000 */
+  maxQueueSize?: number;
+  /** Which records to drop once the queue is full, default "dropOldest" */
+  overflow?: OverflowPolicy;
+  /** Attempts after the first failed request, default 5 */
+  maxRetries?: number;
+  /** First retry delay, doubled on every attempt, default 500 ms */
+  retryDelay?: number | string;
+  /** Upper bound for the retry delay, default 30 seconds */
+  maxRetryDelay?: number | string;
+  /** How long `destroy` waits for the queue to drain, default 5 seconds */
+  shutdownTimeout?: number | string;
+}
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Sends records in batches to an HTTP endpoint, e.g. a log collector or a
+ * chat webhook.  Failed requests are retried with exponential backoff and
+ * full jitter, 4xx responses other than 429 are not retried.
+ */
+export class HttpHandler extends BaseHandler {
+  #url: string;
+  #method: string;
+  #headers: Record<string, string>;
+  #bodyFormat: "json" | "ndjson";
+  #extra: Record<string, unknown>;
+  #batchSize: number;
+  #flushInterval: number;
+  #maxQueueSize: number;
+  #overflow: OverflowPolicy;
+  #maxRetries: number;
+  #retryDelay: number;
+  #maxRetryDelay: number;
+  #shutdownTimeout: number;
+  #queue: Record<string, unknown>[] = [];
+  #sending: Promise<void> | null = null;
+  #timer: number | null = null;
+  #dropped = 0;
+
+  constructor(levelName: LevelName, options: HttpHandlerOptions) {
+    super(levelName, options);
+
+    this.#url = options.url;
+    this.#method = options.method || "POST";
+    this.#headers = options.headers || {};
+    this.#bodyFormat = options.bodyFormat || "json";
+    this.#extra = options.extra || {};
+    this.#batchSize = options.batchSize ?? 100;
+    this.#flushInterval = parseDuration(options.flushInterval ?? 1000);
+    this.#maxQueueSize = options.maxQueueSize ?? 10000;
+    this.#overflow = options.overflow || "dropOldest";
+    this.#maxRetries = options.maxRetries ?? 5;
+    this.#retryDelay = parseDuration(options.retryDelay ?? 500);
+    this.#maxRetryDelay = parseDuration(options.maxRetryDelay ?? "30s");
+    this.#shutdownTimeout = parseDuration(options.shutdownTimeout ?? "5s");
+  }
+
+  /** Records waiting to be sent */
+  get queueSize(): number {
+    return this.#queue.length;
+  }
+
+  /** Records lost to queue overflow or exhausted retries */
+  get dropped(): number {
+    return this.#dropped;
+  }
+
+  async setup(): Promise<void> {
+    if (!this.#url) {
+      throw new Error("url is required");
+    }
+    if (this.#batchSize < 1) {
+      throw new Error("batchSize cannot be less than 1");
+    }
+
+    this.#timer = setInterval(() => this.flush(), this.#flushInterval);
+  }
+
+  handle(logRecord: LogRecord): void {
+    if (this.level > logRecord.level) return;
+    if (!this.filter(logRecord)) return;
+
+    if (this.#queue.length >= this.#maxQueueSize) {
+      this.#dropped++;
+      if (this.#overflow === "dropNewest") {
+        return;
+      }
+      this.#queue.shift();
+    }
+
+    this.#queue.push(recordToObject(logRecord, { extra: this.#extra }));
+
+    if (this.#queue.length >= this.#batchSize) {
+      this.flush();
+    }
+  }
+
+  /** Sends everything queued so far, resolves once the queue is empty */
+  flush(): Promise<void> {
+    if (!this.#sending) {
+      this.#sending = this.drain().finally(() => {
+        this.#sending = null;
+      });
+    }
+    return this.#sending;
+  }
+
+  async destroy(): Promise<void> {
+    if (this.#timer !== null) {
+      clearInterval(this.#timer);
+      this.#timer = null;
+    }
+
+    let timeout: number | undefined;
+    await Promise.race([
+      this.flush(),
+      new Promise<void>((resolve) => {
+        timeout = setTimeout(resolve, this.#shutdownTimeout);
+      }),
+    ]);
+    clearTimeout(timeout);
+
+    if (this.#queue.length) {
+      this.#dropped += this.#queue.length;
+      this.reportFailure(
+        new Error(
+          `HttpHandler: ${this.#queue.length} records were not sent to ${this.#url}`,
+        ),
+      );
+      this.#queue = [];
+    }
+  }
+
+  formatBody(batch: Record<string, unknown>[]): string {
+    if (this.#bodyFormat === "ndjson") {
+      return batch.map((item) => safeStringify(item)).join("\n") + "\n";
+    }
+    return safeStringify(batch);
+  }
+
+  private async drain(): Promise<void> {
+    while (this.#queue.length) {
+      const batch = this.#queue.splice(0, this.#batchSize);
+
+      try {
+        await this.send(batch);
+      } catch (err) {
+        this.#dropped += batch.length;
+        this.reportFailure(err);
+      }
+    }
+  }
+
+  private async send(batch: Record<string, unknown>[]): Promise<void> {
+    const body = this.formatBody(batch);
+    const contentType = this.#bodyFormat === "ndjson"
+      ? "application/x-ndjson"
+      : "application/json";
+
+    for (let attempt = 0;; attempt++) {
+      let res: Response | null = null;
+      let error: Error;
+
+      try {
+        res = await fetch(this.#url, {
+          method: this.#method,
+          headers: { "content-type": contentType, ...this.#headers },
+          body,
+        });
+        await res.arrayBuffer();
+      } catch (err) {
+        error = err;
+      }
+
+      if (res) {
+        if (res.ok) {
+          return;
+        }
+
+        error = new Error(
+          `HttpHandler: ${this.#method} ${this.#url} failed with ${res.status}`,
+        );
+        if (res.status !== 429 && res.status < 500) {
+          throw error;
+        }
+      }
+
+      if (attempt >= this.#maxRetries) {
+        throw error!;
+      }
+
+      const retryAfter = Number(res?.headers.get("retry-after")) * 1000;
+      const backoff = Math.min(
+        this.#maxRetryDelay,
+        this.#retryDelay * 2 ** attempt,
+      );
+      await sleep(retryAfter > 0 ? retryAfter : Math.random() * backoff);
+    }
+  }
+}
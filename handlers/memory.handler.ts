@@ -0,0 +1,105 @@
+import { BaseHandler, HandlerOptions } from "../handlers.ts";
+import { getLevelByName, LevelName } from "../levels.ts";
+import type { LogRecord } from "../logger.ts";
+
+export interface MemoryHandlerOptions extends HandlerOptions {
+  /** Handler that receives the buffered records */
+  target: BaseHandler;
+  /** Number of records kept, older ones are discarded */
+  capacity: number;
+  /** Records at or above this level flush the buffer, default "ERROR" */
+  flushLevel?: LevelName;
+  /** Forward whatever is buffered when the handler is destroyed */
+  flushOnDestroy?: boolean;
+}
+
+/** Keeps the last `capacity` records without emitting them and forwards
+ * them all to `target` once a record at or above `flushLevel` arrives, so
+ * DEBUG context only shows up around errors.
+ *
+ * The wrapper sets up and destroys its target, so the target must not be
+ * registered in `LogConfig.handlers` on its own.
+ */
+export class MemoryHandler extends BaseHandler {
+  #target: BaseHandler;
+  #capacity: number;
+  #flushLevel: number;
+  #flushOnDestroy: boolean;
+  #buffer: LogRecord[] = [];
+  #start = 0;
+
+  constructor(levelName: LevelName, options: MemoryHandlerOptions) {
+    super(levelName, options);
+
+    this.#target = options.target;
+    this.#capacity = options.capacity;
+    this.#flushLevel = getLevelByName(options.flushLevel || "ERROR");
+    this.#flushOnDestroy = options.flushOnDestroy ?? false;
+  }
+
+  get target(): BaseHandler {
+    return this.#target;
+  }
+
+  /** Number of records currently buffered */
+  get size(): number {
+    return this.#buffer.length;
+  }
+
+  async setup(): Promise<void> {
+    if (this.#capacity < 1) {
+      throw new Error("capacity cannot be less than 1");
+    }
+
+    await this.#target.setup();
+  }
+
+  handle(logRecord: LogRecord): void {
+    if (this.level > logRecord.level) return;
+    if (!this.filter(logRecord)) return;
+
+    if (this.#buffer.length < this.#capacity) {
+      this.#buffer.push(logRecord);
+    } else {
+      // overwrite the oldest record
+      this.#buffer[this.#start] = logRecord;
+      this.#start = (this.#start + 1) % this.#capacity;
+    }
+
+    if (logRecord.level >= this.#flushLevel) {
+      this.flushBuffer();
+    }
+  }
+
+  /** Forwards buffered records to the target, oldest first */
+  flushBuffer(): void {
+    const records = this.#buffer.slice(this.#start)
+      .concat(this.#buffer.slice(0, this.#start));
+
+    this.clear();
+    records.forEach((record): void => {
+      this.#target.receive(record);
+    });
+  }
+
+  /** Flushes the target, buffered records stay until `flushLevel` */
+  async flush(): Promise<void> {
+    await this.#target.flush();
+  }
+
+  /** Drops buffered records without forwarding them */
+  clear(): void {
+    this.#buffer = [];
+    this.#start = 0;
+  }
+
+  async destroy(): Promise<void> {
+    if (this.#flushOnDestroy) {
+      this.flushBuffer();
+    } else {
+      this.clear();
+    }
+
+    await this.#target.destroy();
+  }
+}
@@ -0,0 +1,241 @@
+import { BaseHandler, HandlerOptions } from "../handlers.ts";
+import { LevelName } from "../levels.ts";
+import { LogRecord } from "../logger.ts";
+import { parseDuration } from "../util/time.ts";
+
+type DedupeKey = "msg" | "template" | ((logRecord: LogRecord) => string);
+
+export interface RateLimitHandlerOptions extends HandlerOptions {
+  /** Handler that receives the records which get through */
+  target: BaseHandler;
+  /** Records allowed per `interval`, unlimited when omitted */
+  rate?: number;
+  /** Bucket size, defaults to `rate` */
+  burst?: number;
+  /** Refill period of the token bucket, default 1 second */
+  interval?: number | string;
+  /** Probability (0 - 1) of keeping a record, per level */
+  sampling?: Partial<Record<LevelName, number>>;
+  /** Drop records with the same key seen within `dedupeWindow` */
+  dedupe?: boolean;
+  /** What makes two records "the same", default "template" which falls
+   * back to the message for records logged without a format string
+   */
+  dedupeKey?: DedupeKey;
+  dedupeWindow?: number | string;
+  /** Keys remembered for duplicates and summaries, the least recently
+   * seen are forgotten beyond this, default 10000
+   */
+  maxTracked?: number;
+  /** How long after the first dropped record "suppressed N similar
+   * messages" is emitted, default 1 minute
+   */
+  summaryInterval?: number | string;
+}
+
+interface SuppressedEntry {
+  lastSeen: number;
+  suppressed: number;
+  record: LogRecord;
+}
+
+/** Sits in front of another handler and protects it from floods: applies
+ * sampling, duplicate suppression and a token bucket, in that order, and
+ * reports how many records were dropped `summaryInterval` after the first
+ * one.
+ *
+ * The wrapper sets up and destroys its target, so the target must not be
+ * registered in `LogConfig.handlers` on its own.
+ */
+export class RateLimitHandler extends BaseHandler {
+  #target: BaseHandler;
+  #rate: number | null;
+  #burst: number;
+  #interval: number;
+  #sampling: Partial<Record<LevelName, number>>;
+  #dedupe: boolean;
+  #dedupeKey: DedupeKey;
+  #dedupeWindow: number;
+  #maxTracked: number;
+  #summaryInterval: number;
+  #tokens: number;
+  #lastRefill = Date.now();
+  #seen = new Map<string, SuppressedEntry>();
+  #summaryTimer: number | null = null;
+
+  constructor(levelName: LevelName, options: RateLimitHandlerOptions) {
+    super(levelName, options);
+
+    this.#target = options.target;
+    this.#rate = options.rate ?? null;
+    this.#burst = options.burst ?? options.rate ?? 0;
+    this.#interval = parseDuration(options.interval ?? 1000);
+    this.#sampling = options.sampling || {};
+    this.#dedupe = options.dedupe ?? false;
+    this.#dedupeKey = options.dedupeKey || "template";
+    this.#dedupeWindow = parseDuration(options.dedupeWindow ?? "1m");
+    this.#maxTracked = options.maxTracked ?? 10000;
+    this.#summaryInterval = parseDuration(options.summaryInterval ?? "1m");
+    this.#tokens = this.#burst;
+  }
+
+  get target(): BaseHandler {
+    return this.#target;
+  }
+
+  /** Number of keys currently remembered */
+  get trackedCount(): number {
+    return this.#seen.size;
+  }
+
+  async setup(): Promise<void> {
+    if (this.#rate !== null && this.#rate <= 0) {
+      throw new Error("rate must be greater than 0");
+    }
+    if (this.#maxTracked < 1) {
+      throw new Error("maxTracked cannot be less than 1");
+    }
+
+    await this.#target.setup();
+  }
+
+  handle(logRecord: LogRecord): void {
+    if (this.level > logRecord.level) return;
+    if (!this.filter(logRecord)) return;
+
+    const sampleRate = this.#sampling[logRecord.levelName as LevelName];
+    if (sampleRate !== undefined && Math.random() >= sampleRate) {
+      return;
+    }
+
+    const key = this.getKey(logRecord);
+    const now = Date.now();
+
+    if (this.#dedupe) {
+      const entry = this.#seen.get(key);
+      if (entry && now - entry.lastSeen < this.#dedupeWindow) {
+        this.track(key, logRecord, now, true);
+        return;
+      }
+    }
+
+    if (!this.takeToken(now)) {
+      this.track(key, logRecord, now, true);
+      return;
+    }
+
+    if (this.#dedupe) {
+      this.track(key, logRecord, now, false);
+    }
+
+    this.#target.receive(logRecord);
+  }
+
+  getKey(logRecord: LogRecord): string {
+    if (this.#dedupeKey instanceof Function) {
+      return this.#dedupeKey(logRecord);
+    }
+    if (this.#dedupeKey === "template" && logRecord.template !== null) {
+      return `${logRecord.loggerName}:${logRecord.template}`;
+    }
+    return `${logRecord.loggerName}:${logRecord.clearMsg}`;
+  }
+
+  /** Sends one summary record per suppressed key to the target */
+  emitSummary(): void {
+    if (this.#summaryTimer !== null) {
+      clearTimeout(this.#summaryTimer);
+      this.#summaryTimer = null;
+    }
+
+    const now = Date.now();
+
+    this.#seen.forEach((entry, key): void => {
+      if (entry.suppressed > 0) {
+        const { record, suppressed } = entry;
+        entry.suppressed = 0;
+
+        this.#target.receive(
+          new LogRecord({
+            msg: `suppressed ${suppressed} similar messages: ${record.msg}`,
+            args: [],
+            level: record.level,
+            loggerName: record.loggerName,
+            category: record.category || undefined,
+            fields: { ...record.fields, suppressed },
+          }),
+        );
+      } else if (now - entry.lastSeen >= this.#dedupeWindow) {
+        this.#seen.delete(key);
+      }
+    });
+  }
+
+  async flush(): Promise<void> {
+    await this.#target.flush();
+  }
+
+  async destroy(): Promise<void> {
+    this.emitSummary();
+    await this.#target.destroy();
+  }
+
+  private takeToken(now: number): boolean {
+    if (this.#rate === null) {
+      return true;
+    }
+
+    const refill = (now - this.#lastRefill) / this.#interval * this.#rate;
+    this.#tokens = Math.min(this.#burst, this.#tokens + refill);
+    this.#lastRefill = now;
+
+    if (this.#tokens < 1) {
+      return false;
+    }
+
+    this.#tokens--;
+    return true;
+  }
+
+  private track(
+    key: string,
+    logRecord: LogRecord,
+    now: number,
+    dropped: boolean,
+  ): void {
+    const entry = this.#seen.get(key) ||
+      { lastSeen: now, suppressed: 0, record: logRecord };
+
+    entry.lastSeen = now;
+    entry.record = logRecord;
+    // re-inserted so the map stays ordered by `lastSeen`
+    this.#seen.delete(key);
+    this.#seen.set(key, entry);
+
+    if (dropped) {
+      entry.suppressed++;
+      if (this.#summaryTimer === null) {
+        this.#summaryTimer = setTimeout(
+          () => this.emitSummary(),
+          this.#summaryInterval,
+        );
+      }
+    }
+
+    this.prune(now);
+  }
+
+  /** Forgets expired keys and the least recently seen ones over
+   * `maxTracked`, counts not reported yet are lost in the latter case
+   */
+  private prune(now: number): void {
+    for (const [key, entry] of this.#seen) {
+      const expired = entry.suppressed === 0 &&
+        now - entry.lastSeen >= this.#dedupeWindow;
+      if (!expired && this.#seen.size <= this.#maxTracked) {
+        break;
+      }
+      this.#seen.delete(key);
+    }
+  }
+}
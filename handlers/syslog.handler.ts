@@ -0,0 +1,321 @@
+import { BaseHandler, HandlerOptions } from "../handlers.ts";
+import { LevelName, LogLevels } from "../levels.ts";
+import type { LogRecord } from "../logger.ts";
+import { asString } from "../util/helpers.ts";
+import { stripColor } from "../deps.ts";
+
+type SyslogFormat = "rfc5424" | "rfc3164";
+type SyslogTransport = "udp" | "tcp" | "unix";
+
+export const SyslogFacilities = {
+  kern: 0,
+  user: 1,
+  mail: 2,
+  daemon: 3,
+  auth: 4,
+  syslog: 5,
+  lpr: 6,
+  news: 7,
+  uucp: 8,
+  cron: 9,
+  authpriv: 10,
+  ftp: 11,
+  local0: 16,
+  local1: 17,
+  local2: 18,
+  local3: 19,
+  local4: 20,
+  local5: 21,
+  local6: 22,
+  local7: 23,
+};
+
+export type SyslogFacility = keyof typeof SyslogFacilities;
+
+export interface SyslogHandlerOptions extends HandlerOptions {
+  /** Default "user" */
+  facility?: SyslogFacility;
+  /** APP-NAME (RFC 5424) or TAG (RFC 3164), default "deno" */
+  appName?: string;
+  /** Defaults to `Deno.hostname()` when available */
+  hostname?: string;
+  /** Default "rfc5424" */
+  format?: SyslogFormat;
+  /** Default "udp" */
+  transport?: SyslogTransport;
+  /** Default "127.0.0.1" */
+  host?: string;
+  /** Default 514 */
+  port?: number;
+  /** Socket for the "unix" transport, default "/dev/log" */
+  path?: string;
+  /** SD-ID used for record fields, default "fields@32473" */
+  sdId?: string;
+  /** Wait before reconnecting after a failure, default 1000 ms */
+  reconnectDelay?: number;
+  /** Messages kept while disconnected, default 1000 */
+  maxQueueSize?: number;
+}
+
+interface Connection {
+  send(data: Uint8Array): Promise<void>;
+  close(): void;
+}
+
+const NILVALUE = "-";
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/** Maps a numeric level, including custom ones, to a syslog severity */
+export function getSyslogSeverity(level: number): number {
+  if (level >= LogLevels.CRITICAL) return 2; // critical
+  if (level >= LogLevels.ERROR) return 3; // error
+  if (level >= LogLevels.WARNING) return 4; // warning
+  if (level > LogLevels.INFO) return 5; // notice
+  if (level >= LogLevels.INFO) return 6; // informational
+  return 7; // debug
+}
+
+function escapeParamValue(value: string): string {
+  return value.replace(/["\\\]]/g, (char) => "\\" + char);
+}
+
+/** PARAM-NAME is 1*32 printable US-ASCII except `=`, SP, `]` and `"` */
+function toParamName(key: string): string {
+  return key.replace(/[^\x21-\x7e]|[=\]"]/g, "_").slice(0, 32) || "_";
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+/** Sends records to a syslog daemon such as rsyslog, either as RFC 5424
+ * (record fields become structured data) or as legacy RFC 3164, over UDP,
+ * TCP with octet-counting framing or the local `/dev/log` socket.
+ */
+export class SyslogHandler extends BaseHandler {
+  #facility: number;
+  #appName: string;
+  #hostname: string;
+  #format: SyslogFormat;
+  #transport: SyslogTransport;
+  #host: string;
+  #port: number;
+  #path: string;
+  #sdId: string;
+  #reconnectDelay: number;
+  #maxQueueSize: number;
+  #encoder = new TextEncoder();
+  #connection: Connection | null = null;
+  #queue: Uint8Array[] = [];
+  #sending: Promise<void> | null = null;
+  #destroyed = false;
+
+  constructor(levelName: LevelName, options: SyslogHandlerOptions = {}) {
+    super(levelName, options);
+
+    this.#facility = SyslogFacilities[options.facility || "user"];
+    this.#appName = options.appName || "deno";
+    this.#hostname = options.hostname || getHostname();
+    this.#format = options.format || "rfc5424";
+    this.#transport = options.transport || "udp";
+    this.#host = options.host || "127.0.0.1";
+    this.#port = options.port ?? 514;
+    this.#path = options.path || "/dev/log";
+    this.#sdId = options.sdId || "fields@32473";
+    this.#reconnectDelay = options.reconnectDelay ?? 1000;
+    this.#maxQueueSize = options.maxQueueSize ?? 1000;
+  }
+
+  async setup(): Promise<void> {
+    if (this.#facility === undefined) {
+      throw new Error("unknown syslog facility");
+    }
+
+    this.#destroyed = false;
+
+    try {
+      this.#connection = await this.connect();
+    } catch (err) {
+      // not fatal, sending reconnects once the daemon is reachable
+      this.reportFailure(err);
+    }
+  }
+
+  handle(logRecord: LogRecord): void {
+    if (this.level > logRecord.level) return;
+    if (!this.filter(logRecord)) return;
+
+    const msg = stripColor(this.format(logRecord));
+    this.log(this.buildMessage(logRecord, msg));
+  }
+
+  /** Builds the syslog packet for an already formatted message */
+  buildMessage(logRecord: LogRecord, msg: string): string {
+    const pri = this.#facility * 8 + getSyslogSeverity(logRecord.level);
+
+    if (this.#format === "rfc3164") {
+      const date = logRecord.datetime;
+      const timestamp = `${MONTHS[date.getMonth()]} ${
+        String(date.getDate()).padStart(2, " ")
+      } ${pad(date.getHours())}:${pad(date.getMinutes())}:${
+        pad(date.getSeconds())
+      }`;
+
+      return `<${pri}>${timestamp} ${this.#hostname} ${this.#appName}[${Deno.pid}]: ${msg}`;
+    }
+
+    return [
+      `<${pri}>1`,
+      logRecord.datetime.toISOString(),
+      this.#hostname,
+      this.#appName,
+      String(Deno.pid),
+      logRecord.category || NILVALUE,
+      this.structuredData(logRecord),
+      msg,
+    ].join(" ");
+  }
+
+  structuredData(logRecord: LogRecord): string {
+    const fields = logRecord.fields;
+    const params = Object.keys(fields).map((key) =>
+      `${toParamName(key)}="${escapeParamValue(asString(fields[key]))}"`
+    );
+
+    return params.length ? `[${this.#sdId} ${params.join(" ")}]` : NILVALUE;
+  }
+
+  log(msg: string): void {
+    let data = this.#encoder.encode(msg);
+    if (this.#transport === "tcp") {
+      // RFC 6587 octet counting
+      data = this.#encoder.encode(`${data.byteLength} ${msg}`);
+    }
+
+    if (this.#queue.length >= this.#maxQueueSize) {
+      this.#queue.shift();
+    }
+    this.#queue.push(data);
+    this.pump();
+  }
+
+  /** Resolves once the queue is sent, keeps waiting while the daemon is
+   * unreachable
+   */
+  async flush(): Promise<void> {
+    await this.#sending;
+  }
+
+  /** Sends what is still queued unless the connection fails again */
+  async destroy(): Promise<void> {
+    this.#destroyed = true;
+    await this.#sending;
+    this.#connection?.close();
+    this.#connection = null;
+  }
+
+  private pump(): void {
+    if (!this.#sending) {
+      this.#sending = this.drain().finally(() => {
+        this.#sending = null;
+      });
+    }
+  }
+
+  private async drain(): Promise<void> {
+    while (this.#queue.length) {
+      try {
+        if (!this.#connection) {
+          this.#connection = await this.connect();
+        }
+        await this.#connection.send(this.#queue[0]);
+        this.#queue.shift();
+      } catch (err) {
+        this.reportFailure(err);
+        this.#connection?.close();
+        this.#connection = null;
+        if (this.#destroyed) {
+          break;
+        }
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.#reconnectDelay)
+        );
+      }
+    }
+  }
+
+  private async connect(): Promise<Connection> {
+    if (this.#transport === "tcp") {
+      const conn = await Deno.connect({
+        hostname: this.#host,
+        port: this.#port,
+      });
+
+      return {
+        send: async (data: Uint8Array): Promise<void> => {
+          await Deno.writeAll(conn, data);
+        },
+        close: (): void => conn.close(),
+      };
+    }
+
+    if (this.#transport === "unix") {
+      // /dev/log is a datagram socket, which needs a bound local address
+      const dir = Deno.makeTempDirSync({ prefix: "uzulog_syslog" });
+      const socket = Deno.listenDatagram({
+        transport: "unixpacket",
+        path: `${dir}/sock`,
+      });
+      const addr: Deno.UnixAddr = { transport: "unixpacket", path: this.#path };
+
+      return {
+        send: async (data: Uint8Array): Promise<void> => {
+          await socket.send(data, addr);
+        },
+        close: (): void => {
+          socket.close();
+          Deno.removeSync(dir, { recursive: true });
+        },
+      };
+    }
+
+    const socket = Deno.listenDatagram({
+      transport: "udp",
+      hostname: "0.0.0.0",
+      port: 0,
+    });
+    const addr: Deno.NetAddr = {
+      transport: "udp",
+      hostname: this.#host,
+      port: this.#port,
+    };
+
+    return {
+      send: async (data: Uint8Array): Promise<void> => {
+        await socket.send(data, addr);
+      },
+      close: (): void => socket.close(),
+    };
+  }
+}
+
+function getHostname(): string {
+  try {
+    return Deno.hostname();
+  } catch {
+    return NILVALUE;
+  }
+}
@@ -1,20 +1,148 @@
 import { BaseHandler, HandlerOptions } from "../handlers.ts";
-import { LevelName } from "../levels.ts";
+import { getLevelByName, getLevelNames, LevelName } from "../levels.ts";
 import type { LogRecord } from "../logger.ts";
+import { getHandlers, getLogger } from "../registry.ts";
+import { parseDuration } from "../util/time.ts";
+import { stripColor } from "../deps.ts";
+
+export interface TelegramRoute {
+  /** Matches records at or above this level */
+  level?: LevelName;
+  category?: string | string[];
+  /** Matches these loggers and their dotted descendants */
+  loggerName?: string | string[];
+  /** Defaults to the handler's `chatID` */
+  chatID?: string;
+  /** Forum topic, sent as `message_thread_id` */
+  threadID?: number;
+  /** Deliver without sound, sent as `disable_notification` */
+  silent?: boolean;
+  /** Keep looking for further matching routes after this one */
+  continue?: boolean;
+}
+
+export interface TelegramCommandsOptions {
+  /** Chat and user IDs that may send commands, everyone else is ignored */
+  allowedIDs: Array<string | number>;
+  /** Long polling timeout of `getUpdates`, default 30 seconds */
+  pollTimeout?: number | string;
+  /** Records kept for `/tail`, default 100 */
+  tailSize?: number;
+}
 
 export interface TelegramHandlerOptions extends HandlerOptions {
   botToken: string;
+  /** Chat for records no route matches */
   chatID: string;
+  threadID?: number;
+  silent?: boolean;
+  /** Checked in order, the first match wins unless it sets `continue` */
+  routes?: TelegramRoute[];
   projectName?: string;
+  /** How long `destroy` waits for queued messages to be sent, default 5s */
+  drainTimeout?: number;
+  /** Attempts after a failed request, 429 included, default 3 */
+  maxRetries?: number;
+  /** Messages longer than this many characters are sent as a `.txt`
+   * document instead of being split, default 3 messages worth
+   */
+  documentThreshold?: number;
+  /** Answer `/level`, `/tail`, `/mute`, `/unmute` and `/status` sent to the
+   * bot by the allowed chats and users
+   */
+  commands?: TelegramCommandsOptions;
+}
+
+/** Telegram counts the limit on the text left after parsing entities */
+const MESSAGE_LIMIT = 4096;
+const BATCH_SEPARATOR = "\n\n";
+
+export interface TelegramDestination {
+  chatID: string;
+  threadID?: number;
+  silent: boolean;
+}
+
+interface QueueItem {
+  text: string;
+  destination: TelegramDestination;
+}
+
+interface CompiledRoute extends TelegramRoute {
+  minLevel: number;
+  categories: string[] | null;
+  loggerNames: string[] | null;
+}
+
+function toList(value?: string | string[]): string[] | null {
+  if (value === undefined) {
+    return null;
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function sameDestination(
+  a: TelegramDestination,
+  b: TelegramDestination,
+): boolean {
+  return a.chatID === b.chatID && a.threadID === b.threadID &&
+    a.silent === b.silent;
+}
+
+interface TelegramMessage {
+  chat: { id: number };
+  from?: { id: number };
+  text?: string;
+  message_thread_id?: number;
+}
+
+interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+}
+
+const COMMANDS_HELP = [
+  "/level <logger> <level> - change the level of a logger",
+  "/tail [count] - show the last records",
+  "/mute <duration> - stop sending alerts, e.g. /mute 30m",
+  "/unmute - send alerts again",
+  "/status - show handlers and the queue",
+].join("\n");
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>]/g, (char) => HTML_ESCAPES[char]);
 }
 
 export class TelegramHandler extends BaseHandler {
   #botToken: string;
   #chatID: string;
+  #defaultDestination: TelegramDestination;
+  #routes: CompiledRoute[];
   #projectName: string | null;
   #hasConnectToTg: boolean = false;
-  #queue: string[];
+  #queue: QueueItem[];
   #isRunQueue: boolean = false;
+  #drainTimeout: number;
+  #maxRetries: number;
+  #documentThreshold: number;
+  #allowedIDs: string[] | null = null;
+  #pollTimeout: number;
+  #tailSize: number;
+  #tail: LogRecord[] = [];
+  #mutedUntil = 0;
+  #polling = false;
+  /** Cancels the pending `getUpdates` long poll on `destroy` */
+  #pollAbort: AbortController | null = null;
+  #updateOffset = 0;
 
   constructor(levelName: LevelName, options: TelegramHandlerOptions) {
     super(levelName, options);
@@ -22,7 +150,32 @@ export class TelegramHandler extends BaseHandler {
     this.#queue = [];
     this.#botToken = options.botToken;
     this.#chatID = options.chatID;
+    this.#defaultDestination = {
+      chatID: options.chatID,
+      threadID: options.threadID,
+      silent: options.silent ?? false,
+    };
+    this.#routes = (options.routes || []).map((route) => ({
+      ...route,
+      minLevel: route.level ? getLevelByName(route.level) : 0,
+      categories: toList(route.category),
+      loggerNames: toList(route.loggerName),
+    }));
     this.#projectName = options.projectName || null;
+    this.#drainTimeout = options.drainTimeout ?? 5000;
+    this.#maxRetries = options.maxRetries ?? 3;
+    this.#documentThreshold = options.documentThreshold ?? MESSAGE_LIMIT * 3;
+
+    if (options.commands) {
+      this.#allowedIDs = options.commands.allowedIDs.map(String);
+    }
+    this.#pollTimeout = parseDuration(options.commands?.pollTimeout ?? "30s");
+    this.#tailSize = options.commands?.tailSize ?? 100;
+  }
+
+  /** Alerts are dropped until this time, 0 when not muted */
+  get mutedUntil(): number {
+    return this.#mutedUntil;
   }
 
   async setup(): Promise<void> {
@@ -41,24 +194,93 @@ export class TelegramHandler extends BaseHandler {
 
       this.#hasConnectToTg = true;
       setTimeout(() => this.tapQueue(), 100);
-    }).catch((err) => {
-      console.error(err);
-    });
-  }
 
-  format(logRecord: LogRecord): string {
-    let msg = super.format(logRecord);
-    msg = `<pre>${msg}</pre>`;
+      if (this.#allowedIDs && !this.#polling) {
+        this.#polling = true;
+        this.poll();
+      }
+    }).catch((err): void => this.reportFailure(err));
+  }
 
-    if (this.#projectName) {
-      msg = `${this.#projectName}\n${msg}`;
+  handle(logRecord: LogRecord): void {
+    if (this.#allowedIDs) {
+      // `/tail` shows records below the alert level as well
+      this.#tail.push(logRecord);
+      if (this.#tail.length > this.#tailSize) {
+        this.#tail.shift();
+      }
     }
 
-    return msg;
+    if (this.level > logRecord.level) return;
+    if (!this.filter(logRecord)) return;
+    if (Date.now() < this.#mutedUntil) return;
+
+    const msg = this.formatText(logRecord);
+    for (const destination of this.getDestinations(logRecord)) {
+      this.enqueue(msg, destination);
+    }
   }
 
   log(msg: string): void {
-    this.#queue.push(msg);
+    this.enqueue(msg, this.#defaultDestination);
+  }
+
+  /** Formats a record the way `BaseHandler.handle` does */
+  formatText(logRecord: LogRecord): string {
+    const msg = this.format(logRecord);
+    return this.noColor ? stripColor(msg) : msg;
+  }
+
+  /** Returns where a record goes according to `routes` */
+  getDestinations(logRecord: LogRecord): TelegramDestination[] {
+    const destinations: TelegramDestination[] = [];
+
+    for (const route of this.#routes) {
+      if (!this.matchRoute(route, logRecord)) {
+        continue;
+      }
+
+      const destination: TelegramDestination = {
+        chatID: route.chatID ?? this.#defaultDestination.chatID,
+        threadID: route.threadID ?? this.#defaultDestination.threadID,
+        silent: route.silent ?? this.#defaultDestination.silent,
+      };
+      if (!destinations.some((d) => sameDestination(d, destination))) {
+        destinations.push(destination);
+      }
+
+      if (!route.continue) {
+        break;
+      }
+    }
+
+    return destinations.length ? destinations : [this.#defaultDestination];
+  }
+
+  private matchRoute(route: CompiledRoute, logRecord: LogRecord): boolean {
+    if (logRecord.level < route.minLevel) {
+      return false;
+    }
+    if (
+      route.categories &&
+      !route.categories.includes(logRecord.category as string)
+    ) {
+      return false;
+    }
+    if (
+      route.loggerNames &&
+      !route.loggerNames.some((name) =>
+        logRecord.loggerName === name ||
+        logRecord.loggerName.startsWith(name + ".")
+      )
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  private enqueue(text: string, destination: TelegramDestination): void {
+    this.#queue.push({ text, destination });
 
     if (this.#hasConnectToTg) {
       setTimeout(() => this.tapQueue(), 100);
@@ -70,30 +292,338 @@ export class TelegramHandler extends BaseHandler {
       return;
     }
 
-    const msg = this.#queue.shift();
-    if (!msg) {
-      setTimeout(() => this.tapQueue(), 100);
-      return;
-    }
-
     this.#isRunQueue = true;
-    const fm = new FormData();
-    fm.set("chat_id", this.#chatID);
-    fm.set("text", msg);
-    fm.set("parse_mode", "HTML");
-
-    fetch(this._getTgLink("sendMessage"), {
-      method: "POST",
-      body: fm,
-      keepalive: true,
-    }).catch((err) => {
-      console.error(err);
+    const { text, destination } = this.takeBatch();
+
+    this.deliver(text, destination).catch((err): void => {
+      this.reportFailure(err);
     }).finally(() => {
       this.#isRunQueue = false;
       setTimeout(() => this.tapQueue(), 100);
     });
   }
 
+  /** Joins as many queued messages for the same destination as fit into
+   * one Telegram message, so a backed up queue is drained in fewer requests.
+   */
+  takeBatch(): QueueItem {
+    const limit = this.getTextLimit();
+    const first = this.#queue.shift()!;
+    let text = first.text;
+
+    while (
+      this.#queue.length &&
+      sameDestination(this.#queue[0].destination, first.destination) &&
+      text.length + BATCH_SEPARATOR.length + this.#queue[0].text.length <=
+        limit
+    ) {
+      text += BATCH_SEPARATOR + this.#queue.shift()!.text;
+    }
+
+    return { text, destination: first.destination };
+  }
+
+  /** Sends `text` as one message, as several parts or, when it is huge,
+   * as a document.
+   */
+  async deliver(
+    text: string,
+    destination: TelegramDestination = this.#defaultDestination,
+  ): Promise<void> {
+    if (text.length > this.#documentThreshold) {
+      await this.sendDocument(text, destination);
+      return;
+    }
+
+    for (const part of this.splitText(text)) {
+      await this.sendMessage(part, destination);
+    }
+  }
+
+  splitText(text: string): string[] {
+    const limit = this.getTextLimit();
+    const parts: string[] = [];
+    let rest = text;
+
+    while (rest.length > limit) {
+      // prefer to break at a line end
+      let end = rest.lastIndexOf("\n", limit);
+      if (end < limit / 2) {
+        end = limit;
+      }
+
+      parts.push(rest.slice(0, end));
+      rest = rest.slice(end).replace(/^\n/, "");
+    }
+    parts.push(rest);
+
+    return parts;
+  }
+
+  async sendMessage(
+    text: string,
+    destination: TelegramDestination = this.#defaultDestination,
+  ): Promise<void> {
+    let html = `<pre>${escapeHtml(text)}</pre>`;
+    if (this.#projectName) {
+      html = `${escapeHtml(this.#projectName)}\n${html}`;
+    }
+
+    await this.callApi("sendMessage", (): FormData => {
+      const fm = this.createForm(destination);
+      fm.set("text", html);
+      fm.set("parse_mode", "HTML");
+      return fm;
+    });
+  }
+
+  async sendDocument(
+    text: string,
+    destination: TelegramDestination = this.#defaultDestination,
+  ): Promise<void> {
+    await this.callApi("sendDocument", (): FormData => {
+      const fm = this.createForm(destination);
+      fm.set("document", new Blob([text], { type: "text/plain" }), "log.txt");
+      if (this.#projectName) {
+        fm.set("caption", this.#projectName);
+      }
+      return fm;
+    });
+  }
+
+  /** Answers a command and returns the reply */
+  runCommand(text: string): string {
+    const [name, ...args] = text.trim().split(/\s+/);
+    // commands in groups may be addressed as /status@my_bot
+    const command = name.replace(/@.*$/, "");
+
+    switch (command) {
+      case "/level": {
+        const [loggerName, levelName] = args;
+        const names: string[] = getLevelNames();
+        if (!loggerName || !levelName) {
+          return "usage: /level <logger> <level>";
+        }
+        if (!names.includes(levelName.toUpperCase())) {
+          return `unknown level ${levelName}, use one of ${names.join(", ")}`;
+        }
+
+        getLogger(loggerName).levelName = levelName.toUpperCase() as LevelName;
+        return `${loggerName} level set to ${levelName.toUpperCase()}`;
+      }
+
+      case "/tail": {
+        const count = Math.min(Number(args[0] ?? 10), this.#tailSize);
+        if (!(count > 0)) {
+          return "usage: /tail [count]";
+        }
+
+        const records = this.#tail.slice(-count);
+        return records.length
+          ? records.map((record) => this.formatText(record)).join("\n")
+          : "no records yet";
+      }
+
+      case "/mute": {
+        let duration: number;
+        try {
+          duration = parseDuration(args[0] ?? "");
+        } catch {
+          return "usage: /mute <duration>, e.g. /mute 30m";
+        }
+
+        this.#mutedUntil = Date.now() + duration;
+        return `alerts muted until ${new Date(this.#mutedUntil).toISOString()}`;
+      }
+
+      case "/unmute":
+        this.#mutedUntil = 0;
+        return "alerts unmuted";
+
+      case "/status":
+        return this.getStatus();
+
+      default:
+        return COMMANDS_HELP;
+    }
+  }
+
+  getStatus(): string {
+    const lines = [
+      `connected: ${this.#hasConnectToTg ? "yes" : "no"}`,
+      `queued messages: ${this.#queue.length}`,
+      `muted: ${
+        Date.now() < this.#mutedUntil
+          ? `until ${new Date(this.#mutedUntil).toISOString()}`
+          : "no"
+      }`,
+      "handlers:",
+    ];
+
+    getHandlers().forEach((handler, name): void => {
+      let line = `  ${name}: ${handler.constructor.name} ${handler.levelName}`;
+      const stats = handler as { queueSize?: number; dropped?: number };
+      if (stats.queueSize !== undefined) {
+        line += `, queued ${stats.queueSize}`;
+      }
+      if (stats.dropped !== undefined) {
+        line += `, dropped ${stats.dropped}`;
+      }
+      if (handler.health.failures) {
+        line += `, failed ${handler.health.failures} times`;
+      }
+      lines.push(line);
+    });
+
+    return lines.join("\n");
+  }
+
+  /** Whether the sender of a command is in `commands.allowedIDs` */
+  isAuthorized(message: TelegramMessage): boolean {
+    if (!this.#allowedIDs) {
+      return false;
+    }
+
+    return this.#allowedIDs.includes(String(message.chat.id)) ||
+      (message.from !== undefined &&
+        this.#allowedIDs.includes(String(message.from.id)));
+  }
+
+  private async poll(): Promise<void> {
+    while (this.#polling) {
+      this.#pollAbort = new AbortController();
+
+      try {
+        const updates = await this.callApi("getUpdates", (): FormData => {
+          const fm = new FormData();
+          fm.set("offset", String(this.#updateOffset));
+          fm.set("timeout", String(Math.round(this.#pollTimeout / 1000)));
+          fm.set("allowed_updates", JSON.stringify(["message"]));
+          return fm;
+        }, this.#pollAbort.signal) as TelegramUpdate[];
+
+        for (const update of updates) {
+          this.#updateOffset = update.update_id + 1;
+          if (this.#polling && update.message) {
+            await this.onMessage(update.message);
+          }
+        }
+      } catch (err) {
+        if (!this.#polling) {
+          break;
+        }
+        this.reportFailure(err);
+        await sleep(5000);
+      }
+    }
+
+    this.#pollAbort = null;
+  }
+
+  private async onMessage(message: TelegramMessage): Promise<void> {
+    if (!message.text?.startsWith("/") || !this.isAuthorized(message)) {
+      return;
+    }
+
+    // replies go out directly, muting only applies to alerts
+    await this.deliver(this.runCommand(message.text), {
+      chatID: String(message.chat.id),
+      threadID: message.message_thread_id,
+      silent: false,
+    });
+  }
+
+  /** Calls a Bot API method, waiting `retry_after` seconds on 429 and
+   * retrying network and server errors up to `maxRetries` times.
+   */
+  async callApi(
+    method: string,
+    body: () => FormData,
+    signal?: AbortSignal,
+  ): Promise<unknown> {
+    for (let attempt = 0;; attempt++) {
+      let res: Response;
+
+      try {
+        res = await fetch(this._getTgLink(method), {
+          method: "POST",
+          body: body(),
+          keepalive: true,
+          signal,
+        });
+      } catch (err) {
+        if (signal?.aborted || attempt >= this.#maxRetries) {
+          throw err;
+        }
+        await sleep(1000 * 2 ** attempt);
+        continue;
+      }
+
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        return data.result;
+      }
+
+      if (attempt < this.#maxRetries) {
+        if (res.status === 429) {
+          await sleep((data.parameters?.retry_after ?? 1) * 1000);
+          continue;
+        }
+        if (res.status >= 500) {
+          await sleep(1000 * 2 ** attempt);
+          continue;
+        }
+      }
+
+      throw new Error(
+        `Telegram ${method} failed with ${res.status}: ${data.description}`,
+      );
+    }
+  }
+
+  /** Resolves once the queue is sent, messages logged before the bot
+   * connected stay queued
+   */
+  async flush(): Promise<void> {
+    await this.waitForQueue(Infinity);
+  }
+
+  async destroy(): Promise<void> {
+    this.#polling = false;
+    this.#pollAbort?.abort();
+    await this.waitForQueue(Date.now() + this.#drainTimeout);
+  }
+
+  private async waitForQueue(deadline: number): Promise<void> {
+    this.tapQueue();
+
+    while (
+      this.#hasConnectToTg && (this.#queue.length || this.#isRunQueue) &&
+      Date.now() < deadline
+    ) {
+      await sleep(100);
+    }
+  }
+
+  private createForm(destination: TelegramDestination): FormData {
+    const fm = new FormData();
+    fm.set("chat_id", destination.chatID);
+
+    if (destination.threadID !== undefined) {
+      fm.set("message_thread_id", String(destination.threadID));
+    }
+    if (destination.silent) {
+      fm.set("disable_notification", "true");
+    }
+
+    return fm;
+  }
+
+  private getTextLimit(): number {
+    return MESSAGE_LIMIT -
+      (this.#projectName ? this.#projectName.length + 1 : 0);
+  }
+
   private _getTgLink(method: string) {
     return `https://api.telegram.org/bot${this.#botToken}/${method}`;
   }
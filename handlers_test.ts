@@ -4,6 +4,7 @@ import {
   assertEquals,
   assertThrowsAsync,
   assertNotEquals,
+  serve,
 } from "./test_deps.ts";
 import {
   LogLevels,
@@ -12,9 +13,24 @@ import {
   getLevelByName,
   LevelName,
 } from "./levels.ts";
-import { BaseHandler, FileHandler, RotatingFileHandler } from "./handlers.ts";
+import {
+  BaseHandler,
+  FileHandler,
+  RotatingFileHandler,
+  setHandlerErrorCallback,
+  TimedRotatingFileHandler,
+} from "./handlers.ts";
+import { RateLimitHandler } from "./handlers/ratelimit.handler.ts";
+import { MemoryHandler } from "./handlers/memory.handler.ts";
+import { HttpHandler } from "./handlers/http.handler.ts";
+import { SyslogHandler } from "./handlers/syslog.handler.ts";
+import {
+  escapeHtml,
+  TelegramHandler,
+} from "./handlers/telegram.handler.ts";
 import { LogRecord } from "./logger.ts";
-import { existsSync } from "./deps.ts";
+import { flush, getLogger, setup } from "./mod.ts";
+import { basename, existsSync, gunzip, red } from "./deps.ts";
 
 const LOG_FILE = "./test_log.file";
 
@@ -94,6 +110,26 @@ Deno.test("testFormatterAsString", function (): void {
   assertEquals(handler.messages, ["test DEBUG Hello, world!"]);
 });
 
+Deno.test("testFormatterErrorAndFieldTokens", function (): void {
+  const handler = new TestHandler("DEBUG", {
+    formatter: "{levelName} [{category}] {error}",
+  });
+
+  handler.handle(
+    new LogRecord({
+      msg: "failed",
+      args: [new Error("boom")],
+      level: LogLevels.ERROR,
+      loggerName: "default",
+      fields: { category: "payments" },
+    }),
+  );
+
+  const [message] = handler.messages;
+  assert(message.startsWith("ERROR [payments] Error: boom\n"));
+  assertEquals(message.split("Error: boom").length, 2);
+});
+
 Deno.test("testFormatterWithEmptyMsg", function () {
   const handler = new TestHandler("DEBUG", {
     formatter: "test {levelName} {msg}",
@@ -539,3 +575,558 @@ Deno.test({
     Deno.removeSync(LOG_FILE);
   },
 });
+
+Deno.test({
+  name: "TimedRotatingFileHandler rotates once after several boundaries",
+  async fn() {
+    const realNow = Date.now;
+    const fileHandler = new TimedRotatingFileHandler("WARNING", {
+      filename: LOG_FILE,
+      when: "minute",
+      maxBackupCount: 2,
+      mode: "w",
+    });
+    await fileHandler.setup();
+
+    const record = new LogRecord({
+      msg: "AAA",
+      args: [],
+      level: LogLevels.ERROR,
+      loggerName: "default",
+    }); // 'ERROR AAA\n' = 10 bytes
+
+    try {
+      fileHandler.handle(record);
+      // pretend the process slept through five boundaries
+      Date.now = (): number => realNow() + 5 * 60 * 1000 + 1;
+      fileHandler.handle(record);
+      fileHandler.handle(record);
+    } finally {
+      Date.now = realNow;
+    }
+    await fileHandler.destroy();
+
+    const backups = fileHandler.getBackupFiles();
+    assertEquals(backups.length, 1);
+    assertEquals((await Deno.stat(LOG_FILE)).size, 20);
+    assertEquals((await Deno.stat(backups[0])).size, 10);
+
+    Deno.removeSync(LOG_FILE);
+    Deno.removeSync(backups[0]);
+  },
+});
+
+Deno.test({
+  name: "TimedRotatingFileHandler orders compressed backups sharing a date",
+  fn() {
+    const backups = [
+      LOG_FILE + ".2024-01-01.10.gz",
+      LOG_FILE + ".2024-01-01.2",
+      LOG_FILE + ".2024-01-01.1.gz",
+      LOG_FILE + ".2023-12-31.gz",
+      LOG_FILE + ".2024-01-01.gz",
+    ];
+    for (const backup of backups) {
+      Deno.writeFileSync(backup, new Uint8Array());
+    }
+
+    const fileHandler = new TimedRotatingFileHandler("WARNING", {
+      filename: LOG_FILE,
+      maxBackupCount: 5,
+    });
+    assertEquals(fileHandler.getBackupFiles().map((path) => basename(path)), [
+      basename(LOG_FILE) + ".2023-12-31.gz",
+      basename(LOG_FILE) + ".2024-01-01.gz",
+      basename(LOG_FILE) + ".2024-01-01.1.gz",
+      basename(LOG_FILE) + ".2024-01-01.2",
+      basename(LOG_FILE) + ".2024-01-01.10.gz",
+    ]);
+
+    for (const backup of backups) {
+      Deno.removeSync(backup);
+    }
+  },
+});
+
+Deno.test({
+  name: "RotatingFileHandler compresses rotated backups",
+  async fn() {
+    const fileHandler = new RotatingFileHandler("WARNING", {
+      filename: LOG_FILE,
+      maxBytes: 15,
+      maxBackupCount: 2,
+      compress: true,
+      mode: "w",
+    });
+    await fileHandler.setup();
+
+    fileHandler.log("AAA"); // 4 bytes
+    fileHandler.log("BBBBBBBBBBBBB"); // 14 bytes, rollover
+    fileHandler.log("CCC"); // rollover
+    await fileHandler.destroy();
+
+    const decoder = new TextDecoder();
+    assertEquals(decoder.decode(Deno.readFileSync(LOG_FILE)), "CCC\n");
+    assert(!existsSync(LOG_FILE + ".1"));
+    assert(!existsSync(LOG_FILE + ".2"));
+    assertEquals(
+      decoder.decode(gunzip(Deno.readFileSync(LOG_FILE + ".1.gz"))),
+      "BBBBBBBBBBBBB\n",
+    );
+    assertEquals(
+      decoder.decode(gunzip(Deno.readFileSync(LOG_FILE + ".2.gz"))),
+      "AAA\n",
+    );
+
+    Deno.removeSync(LOG_FILE);
+    Deno.removeSync(LOG_FILE + ".1.gz");
+    Deno.removeSync(LOG_FILE + ".2.gz");
+  },
+});
+
+Deno.test({
+  name: "RateLimitHandler suppresses duplicates and reports them",
+  async fn() {
+    const target = new TestHandler("DEBUG");
+    const handler = new RateLimitHandler("DEBUG", {
+      target,
+      dedupe: true,
+      dedupeKey: "msg",
+    });
+    await handler.setup();
+
+    for (let i = 0; i < 5; i++) {
+      handler.handle(
+        new LogRecord({
+          msg: "connection refused",
+          args: [],
+          level: LogLevels.ERROR,
+          loggerName: "default",
+        }),
+      );
+    }
+    handler.handle(
+      new LogRecord({
+        msg: "other",
+        args: [],
+        level: LogLevels.ERROR,
+        loggerName: "default",
+      }),
+    );
+    await handler.destroy();
+
+    assertEquals(target.messages, [
+      "ERROR connection refused",
+      "ERROR other",
+      "ERROR suppressed 4 similar messages: connection refused",
+    ]);
+  },
+});
+
+Deno.test({
+  name: "RateLimitHandler applies a token bucket",
+  async fn() {
+    const target = new TestHandler("DEBUG");
+    const handler = new RateLimitHandler("DEBUG", {
+      target,
+      rate: 2,
+      interval: "1h",
+    });
+    await handler.setup();
+
+    for (let i = 0; i < 4; i++) {
+      handler.handle(
+        new LogRecord({
+          msg: `msg ${i}`,
+          args: [],
+          level: LogLevels.INFO,
+          loggerName: "default",
+        }),
+      );
+    }
+    assertEquals(target.messages, ["INFO msg 0", "INFO msg 1"]);
+
+    await handler.destroy();
+  },
+});
+
+Deno.test({
+  name: "RateLimitHandler forgets expired and surplus keys",
+  async fn() {
+    const target = new TestHandler("DEBUG");
+    const handler = new RateLimitHandler("DEBUG", {
+      target,
+      dedupe: true,
+      dedupeKey: "msg",
+      dedupeWindow: 50,
+      maxTracked: 5,
+    });
+    await handler.setup();
+
+    const log = (msg: string): void =>
+      handler.handle(
+        new LogRecord({
+          msg,
+          args: [],
+          level: LogLevels.INFO,
+          loggerName: "default",
+        }),
+      );
+
+    for (let i = 0; i < 20; i++) {
+      log(`request ${i}`);
+    }
+    assertEquals(handler.trackedCount, 5);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    log("request 20");
+    assertEquals(handler.trackedCount, 1);
+    assertEquals(target.messages.length, 21);
+
+    await handler.destroy();
+  },
+});
+
+Deno.test({
+  name: "RateLimitHandler emits the summary after the first drop",
+  async fn() {
+    const target = new TestHandler("DEBUG");
+    const handler = new RateLimitHandler("DEBUG", {
+      target,
+      rate: 1,
+      interval: "1h",
+      summaryInterval: 10,
+    });
+    await handler.setup();
+
+    for (let i = 0; i < 3; i++) {
+      handler.handle(
+        new LogRecord({
+          msg: "retrying",
+          args: [],
+          level: LogLevels.WARNING,
+          loggerName: "default",
+        }),
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assertEquals(target.messages, [
+      "WARNING retrying",
+      "WARNING suppressed 2 similar messages: retrying",
+    ]);
+    await handler.destroy();
+  },
+});
+
+Deno.test({
+  name: "MemoryHandler forwards buffered context on error",
+  async fn() {
+    const target = new TestHandler("DEBUG");
+    const handler = new MemoryHandler("DEBUG", { target, capacity: 3 });
+    await handler.setup();
+
+    const levels = [
+      LogLevels.DEBUG,
+      LogLevels.DEBUG,
+      LogLevels.INFO,
+      LogLevels.WARNING,
+    ];
+    levels.forEach((level, i): void => {
+      handler.handle(
+        new LogRecord({
+          msg: `step ${i}`,
+          args: [],
+          level,
+          loggerName: "default",
+        }),
+      );
+    });
+    assertEquals(target.messages, []);
+    assertEquals(handler.size, 3);
+
+    handler.handle(
+      new LogRecord({
+        msg: "failed",
+        args: [],
+        level: LogLevels.ERROR,
+        loggerName: "default",
+      }),
+    );
+    assertEquals(target.messages, [
+      "INFO step 2",
+      "WARNING step 3",
+      "ERROR failed",
+    ]);
+    assertEquals(handler.size, 0);
+
+    await handler.destroy();
+  },
+});
+
+Deno.test({
+  name: "MemoryHandler keeps its buffer on a global flush",
+  async fn() {
+    const target = new TestHandler("DEBUG");
+    const handler = new MemoryHandler("DEBUG", { target, capacity: 3 });
+    await setup({
+      handlers: { buffer: handler },
+      loggers: { default: { level: "DEBUG", handlers: ["buffer"] } },
+    });
+
+    getLogger().debug("context");
+    await flush();
+
+    assertEquals(target.messages, []);
+    assertEquals(handler.size, 1);
+
+    await setup({});
+    assertEquals(target.messages, []);
+  },
+});
+
+Deno.test({
+  name: "HttpHandler posts batches and retries failed requests",
+  async fn() {
+    const server = serve({ hostname: "127.0.0.1", port: 0 });
+    const { port } = server.listener.addr as Deno.NetAddr;
+    const bodies: unknown[] = [];
+    let requests = 0;
+
+    const serving = (async (): Promise<void> => {
+      for await (const req of server) {
+        const body = new TextDecoder().decode(await Deno.readAll(req.body));
+        // the first request fails and has to be retried
+        if (requests++ === 0) {
+          await req.respond({ status: 503 });
+          continue;
+        }
+        bodies.push(JSON.parse(body));
+        await req.respond({ status: 200 });
+      }
+    })();
+
+    const handler = new HttpHandler("INFO", {
+      url: `http://127.0.0.1:${port}/logs`,
+      batchSize: 2,
+      retryDelay: 10,
+    });
+    await handler.setup();
+
+    for (const msg of ["a", "b", "c"]) {
+      handler.handle(
+        new LogRecord({
+          msg,
+          args: [],
+          level: LogLevels.INFO,
+          loggerName: "default",
+        }),
+      );
+    }
+    await handler.destroy();
+    server.close();
+    await serving;
+
+    assertEquals(requests, 3);
+    assertEquals(
+      bodies.map((batch) => (batch as { msg: string }[]).map((r) => r.msg)),
+      [["a", "b"], ["c"]],
+    );
+    assertEquals(handler.dropped, 0);
+  },
+});
+
+Deno.test({
+  name: "HttpHandler reports failed sends",
+  async fn() {
+    const failures: unknown[] = [];
+    setHandlerErrorCallback((err, handler, record): void => {
+      failures.push(err, handler, record);
+    });
+
+    try {
+      // nothing listens on port 1, so the connection is refused
+      const handler = new HttpHandler("INFO", {
+        url: "http://127.0.0.1:1/logs",
+        maxRetries: 0,
+      });
+      await handler.setup();
+      handler.receive(
+        new LogRecord({
+          msg: "lost",
+          args: [],
+          level: LogLevels.INFO,
+          loggerName: "default",
+        }),
+      );
+      await handler.destroy();
+
+      assertEquals(handler.dropped, 1);
+      assertEquals(handler.health.failures, 1);
+      assert(failures[0] instanceof Error);
+      assertEquals(failures.slice(1), [handler, null]);
+    } finally {
+      setHandlerErrorCallback(null);
+    }
+  },
+});
+
+Deno.test({
+  name: "SyslogHandler sends RFC 5424 messages over TCP",
+  async fn() {
+    const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+    const { port } = listener.addr as Deno.NetAddr;
+    const handler = new SyslogHandler("INFO", {
+      transport: "tcp",
+      port,
+      facility: "local0",
+      appName: "api",
+      hostname: "web1",
+    });
+
+    const accepted = listener.accept();
+    await handler.setup();
+    const conn = await accepted;
+
+    handler.handle(
+      new LogRecord({
+        msg: "payment failed",
+        args: [],
+        level: LogLevels.ERROR,
+        loggerName: "default",
+        category: "payments",
+        fields: { orderId: 'a"1' },
+      }),
+    );
+    await handler.destroy();
+
+    const received = new TextDecoder().decode(await Deno.readAll(conn));
+    const msg = received.slice(received.indexOf(" ") + 1);
+
+    assertEquals(Number(received.split(" ")[0]), msg.length);
+    assert(msg.startsWith("<131>1 "));
+    assert(
+      msg.endsWith(
+        ` web1 api ${Deno.pid} payments [fields@32473 orderId="a\\"1"] ` +
+          "ERROR payment failed",
+      ),
+    );
+
+    conn.close();
+    listener.close();
+  },
+});
+
+Deno.test("TelegramHandler escapes, batches and splits messages", function () {
+  const handler = new TelegramHandler("ERROR", {
+    botToken: "token",
+    chatID: "1",
+    projectName: "api",
+  });
+
+  assertEquals(escapeHtml("a < b && c > d"), "a &lt; b &amp;&amp; c &gt; d");
+
+  handler.log("first");
+  handler.log("second");
+  handler.log("x".repeat(4090));
+  assertEquals(handler.takeBatch().text, "first\n\nsecond");
+  assertEquals(handler.takeBatch().text.length, 4090);
+
+  const parts = handler.splitText("line\n".repeat(2000));
+  assertEquals(parts.length, 3);
+  assert(parts.every((part) => part.length <= 4096 - "api\n".length));
+  assertEquals(parts.join("\n"), "line\n".repeat(2000));
+
+  handler.handle(
+    new LogRecord({
+      msg: red("disk full"),
+      args: [],
+      level: LogLevels.ERROR,
+      loggerName: "app",
+    }),
+  );
+  assertEquals(handler.takeBatch().text, "ERROR disk full");
+});
+
+Deno.test("TelegramHandler routes records to chats and topics", function () {
+  const handler = new TelegramHandler("DEBUG", {
+    botToken: "token",
+    chatID: "main",
+    routes: [
+      { level: "CRITICAL", chatID: "oncall", continue: true },
+      { category: "payments", threadID: 7 },
+      { loggerName: "app.db", level: "WARNING", silent: true },
+    ],
+  });
+  const record = (
+    level: number,
+    loggerName = "app",
+    category?: string,
+  ): LogRecord =>
+    new LogRecord({ msg: "msg", args: [], level, loggerName, category });
+
+  assertEquals(handler.getDestinations(record(LogLevels.INFO)), [
+    { chatID: "main", threadID: undefined, silent: false },
+  ]);
+  assertEquals(
+    handler.getDestinations(record(LogLevels.CRITICAL, "app", "payments")),
+    [
+      { chatID: "oncall", threadID: undefined, silent: false },
+      { chatID: "main", threadID: 7, silent: false },
+    ],
+  );
+  assertEquals(
+    handler.getDestinations(record(LogLevels.WARNING, "app.db.pool")),
+    [{ chatID: "main", threadID: undefined, silent: true }],
+  );
+  assertEquals(
+    handler.getDestinations(record(LogLevels.INFO, "app.db")),
+    [{ chatID: "main", threadID: undefined, silent: false }],
+  );
+
+  // only messages for the same destination are batched together
+  handler.handle(record(LogLevels.INFO));
+  handler.handle(record(LogLevels.INFO, "app", "payments"));
+  handler.handle(record(LogLevels.INFO, "app", "payments"));
+  assertEquals(handler.takeBatch().destination.threadID, undefined);
+  const batch = handler.takeBatch();
+  assertEquals(batch.destination.threadID, 7);
+  assertEquals(batch.text.split("\n\n").length, 2);
+});
+
+Deno.test("TelegramHandler answers bot commands", function () {
+  const handler = new TelegramHandler("ERROR", {
+    botToken: "token",
+    chatID: "1",
+    formatter: "{levelName} {msg}",
+    commands: { allowedIDs: [42, "-100"], tailSize: 3 },
+  });
+  const record = (level: number, msg: string): LogRecord =>
+    new LogRecord({ msg, args: [], level, loggerName: "app" });
+
+  assert(handler.isAuthorized({ chat: { id: -100 } }));
+  assert(handler.isAuthorized({ chat: { id: 7 }, from: { id: 42 } }));
+  assert(!handler.isAuthorized({ chat: { id: 7 }, from: { id: 8 } }));
+
+  ["one", "two", "three", "four"].forEach((msg) =>
+    handler.handle(record(LogLevels.DEBUG, msg))
+  );
+  assertEquals(handler.runCommand("/tail 2"), "DEBUG three\nDEBUG four");
+  assertEquals(handler.runCommand("/tail@my_bot 50").split("\n").length, 3);
+
+  const before = Date.now();
+  assert(handler.runCommand("/mute 30m").startsWith("alerts muted until"));
+  assert(handler.mutedUntil >= before + 30 * 60 * 1000);
+  handler.handle(record(LogLevels.ERROR, "muted"));
+  assert(handler.getStatus().includes("queued messages: 0"));
+  assertEquals(handler.runCommand("/unmute"), "alerts unmuted");
+  handler.handle(record(LogLevels.ERROR, "sent"));
+  assertEquals(handler.takeBatch().text, "ERROR sent");
+
+  assertEquals(
+    handler.runCommand("/level telegram.commands debug"),
+    "telegram.commands level set to DEBUG",
+  );
+  assert(handler.runCommand("/level app LOUD").startsWith("unknown level"));
+  assert(handler.runCommand("/help").includes("/mute <duration>"));
+});
@@ -1,4 +1,6 @@
 // Copyright 2018-2020 the Deno authors. All rights reserved. MIT license.
+import { blue, yellow, red, bold } from "./deps.ts";
+
 /** Get log level numeric values through enum constants
  */
 export enum LogLevels {
@@ -10,50 +12,142 @@ export enum LogLevels {
   CRITICAL = 50,
 }
 
-/** Permitted log level names */
+/** Permitted built-in log level names */
 export const LogLevelNames = Object.keys(LogLevels).filter((key) =>
   isNaN(Number(key))
 );
 
+/** Keys are the valid level names, augment this interface to make custom
+ * level names type check:
+ *
+ *     declare module "https://.../levels.ts" {
+ *       interface LevelNames {
+ *         TRACE: true;
+ *       }
+ *     }
+ */
+export interface LevelNames {
+  NOTSET: true;
+  DEBUG: true;
+  INFO: true;
+  WARNING: true;
+  ERROR: true;
+  CRITICAL: true;
+}
+
 /** Union of valid log level strings */
-export type LevelName = keyof typeof LogLevels;
+export type LevelName = keyof LevelNames;
+
+export interface LevelStyle {
+  /** Applied by `ConsoleHandler` when colors are enabled */
+  color?: (str: string) => string;
+  /** Color the whole line instead of the part before `{msg}` */
+  colorMsg?: boolean;
+}
+
+interface LevelDefinition extends LevelStyle {
+  name: LevelName;
+  level: number;
+}
 
-const byLevel: Record<string, LevelName> = {
-  [String(LogLevels.NOTSET)]: "NOTSET",
-  [String(LogLevels.DEBUG)]: "DEBUG",
-  [String(LogLevels.INFO)]: "INFO",
-  [String(LogLevels.WARNING)]: "WARNING",
-  [String(LogLevels.ERROR)]: "ERROR",
-  [String(LogLevels.CRITICAL)]: "CRITICAL",
-};
+const byName = new Map<string, LevelDefinition>();
+const byLevel = new Map<number, LevelDefinition>();
+
+function addLevel(definition: LevelDefinition): void {
+  byName.set(definition.name, definition);
+  byLevel.set(definition.level, definition);
+}
+
+addLevel({ name: "NOTSET", level: LogLevels.NOTSET });
+addLevel({ name: "DEBUG", level: LogLevels.DEBUG });
+addLevel({ name: "INFO", level: LogLevels.INFO, color: blue });
+addLevel({ name: "WARNING", level: LogLevels.WARNING, color: yellow });
+addLevel({
+  name: "ERROR",
+  level: LogLevels.ERROR,
+  color: red,
+  colorMsg: true,
+});
+addLevel({
+  name: "CRITICAL",
+  level: LogLevels.CRITICAL,
+  color: (str: string): string => bold(red(str)),
+  colorMsg: true,
+});
+
+/** Registers a custom level such as TRACE (5) or NOTICE (25).  Names and
+ * numeric values must be unique, the built-in levels cannot be replaced.
+ */
+export function registerLevel(
+  name: string,
+  level: number,
+  style: LevelStyle = {},
+): void {
+  if (!/^[A-Z][A-Z0-9_]*$/.test(name)) {
+    throw new Error(`level name must be upper case: "${name}"`);
+  }
+  if (!Number.isInteger(level) || level < 0) {
+    throw new Error(`level must be a non-negative integer: ${level}`);
+  }
+  if (byName.has(name)) {
+    throw new Error(`log level "${name}" is already registered`);
+  }
+  if (byLevel.has(level)) {
+    throw new Error(
+      `level ${level} is already used by "${byLevel.get(level)!.name}"`,
+    );
+  }
+
+  addLevel({ ...style, name: name as LevelName, level });
+}
+
+/** Removes a custom level, mainly to undo `registerLevel` in tests */
+export function unregisterLevel(name: string): void {
+  const definition = byName.get(name);
+  if (!definition) {
+    throw new Error(`no log level found for "${name}"`);
+  }
+  if (LogLevelNames.includes(name)) {
+    throw new Error(`built-in level "${name}" cannot be removed`);
+  }
+
+  byName.delete(name);
+  byLevel.delete(definition.level);
+}
+
+/** Returns every registered level name, built-in and custom, ordered by
+ * their numeric value.
+ */
+export function getLevelNames(): LevelName[] {
+  return [...byLevel.values()]
+    .sort((a, b) => a.level - b.level)
+    .map((definition) => definition.name);
+}
 
 /** Returns the numeric log level associated with the passed,
  * stringy log level name.
  */
 export function getLevelByName(name: LevelName): number {
-  switch (name) {
-    case "NOTSET":
-      return LogLevels.NOTSET;
-    case "DEBUG":
-      return LogLevels.DEBUG;
-    case "INFO":
-      return LogLevels.INFO;
-    case "WARNING":
-      return LogLevels.WARNING;
-    case "ERROR":
-      return LogLevels.ERROR;
-    case "CRITICAL":
-      return LogLevels.CRITICAL;
-    default:
-      throw new Error(`no log level found for "${name}"`);
+  const definition = byName.get(name);
+  if (definition) {
+    return definition.level;
   }
+  throw new Error(`no log level found for "${name}"`);
 }
 
 /** Returns the stringy log level name provided the numeric log level */
 export function getLevelName(level: number): LevelName {
-  const levelName = byLevel[level];
-  if (levelName) {
-    return levelName;
+  const definition = byLevel.get(level);
+  if (definition) {
+    return definition.name;
   }
   throw new Error(`no level name found for level: ${level}`);
 }
+
+/** Returns the console style of a level, empty for unknown levels */
+export function getLevelStyle(level: number): LevelStyle {
+  const definition = byLevel.get(level);
+  return definition
+    ? { color: definition.color, colorMsg: definition.colorMsg }
+    : {};
+}
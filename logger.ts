@@ -6,33 +6,125 @@ import {
   LevelName,
 } from "./levels.ts";
 import type { BaseHandler } from "./handlers.ts";
+import { notifyHandlerError } from "./handlers.ts";
+import { applyFilters, LogFilter } from "./filters.ts";
 import { stripColor } from "./deps.ts";
+import {
+  parseStack,
+  SerializedError,
+  serializeError,
+  StackFrame,
+} from "./util/serialize.ts";
+import { getRedactor } from "./redact.ts";
+import { parseDuration } from "./util/time.ts";
 
 export interface LogRecordOptions {
   msg: string;
+  /** Stored as is, loggers pass them through `LogConfig.redact` first */
   args: unknown[];
   level: number;
   loggerName: string;
   category?: string;
+  fields?: Record<string, unknown>;
+  /** Format string of `*Format` calls, before interpolation */
+  template?: string;
+  /** Defaults to the first `Error` among `args` */
+  error?: SerializedError | null;
+}
+
+/** Serializes the first `Error` passed to a logging call */
+export function captureError(args: unknown[]): SerializedError | null {
+  const err = args.find((arg) => arg instanceof Error);
+  return err ? serializeError(err as Error) : null;
+}
+
+/** Frames of these modules are skipped when looking for the caller */
+const INTERNAL_MODULES = [
+  new URL("./logger.ts", import.meta.url).href,
+  new URL("./mod.ts", import.meta.url).href,
+];
+
+/** Returns the first stack frame outside of uzulog */
+function findCaller(): StackFrame | null {
+  const frames = parseStack(new Error().stack || "");
+  return frames.find((frame) => !INTERNAL_MODULES.includes(frame.file)) ??
+    null;
+}
+
+function hasThunks(args: unknown[]): boolean {
+  return args.some((arg) => typeof arg === "function");
+}
+
+/** Calls function arguments, only done for records that will be logged.
+ * Like a rejection, a thrown error is logged in place of the value.
+ */
+function resolveThunks(args: unknown[]): unknown[] {
+  return hasThunks(args) ? args.map(callThunk) : args;
+}
+
+function callThunk(arg: unknown): unknown {
+  if (typeof arg !== "function") {
+    return arg;
+  }
+
+  try {
+    return arg();
+  } catch (err) {
+    return err;
+  }
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | null)?.then === "function";
+}
+
+/** Awaits async thunks, a rejection is logged in place of its value */
+async function settleArgs(args: unknown[]): Promise<unknown[]> {
+  const results = await Promise.allSettled(args);
+  return results.map((result) =>
+    result.status === "fulfilled" ? result.value : result.reason
+  );
+}
+
+/** Applies `LogConfig.redact` before the message is built from `args` */
+function redactArgs(args: unknown[]): unknown[] {
+  const redactor = getRedactor();
+  return redactor ? redactor.redact(args) : args;
 }
 
 export class LogRecord {
   #args: unknown[];
+  #fields: Record<string, unknown>;
   #datetime: Date;
+  #caller: StackFrame | null = null;
   readonly msg: string;
   readonly level: number;
   readonly levelName: string;
   readonly loggerName: string;
   readonly category: string | null;
+  readonly template: string | null;
+  readonly error: SerializedError | null;
 
   constructor(options: LogRecordOptions) {
-    this.msg = options.msg;
-    this.#args = options.args;
+    // loggers redact `args` before building `msg` from them, the message
+    // text and the fields are redacted here so that no handler sees secrets
+    const redactor = getRedactor();
+    const args = options.args;
+
+    this.msg = redactor ? redactor.redactText(options.msg) : options.msg;
+    this.#args = args;
     this.level = options.level;
     this.loggerName = options.loggerName;
     this.#datetime = new Date();
     this.levelName = getLevelName(options.level);
     this.category = options.category || null;
+    this.template = options.template ?? null;
+    this.error = options.error !== undefined
+      ? options.error
+      : captureError(args);
+    this.#fields = redactor
+      ? redactor.redact({ ...options.fields })
+      : { ...options.fields };
   }
 
   get clearMsg(): string {
@@ -42,21 +134,70 @@ export class LogRecord {
   get args(): unknown[] {
     return [...this.#args];
   }
+  get fields(): Record<string, unknown> {
+    return { ...this.#fields };
+  }
   get datetime(): Date {
     return new Date(this.#datetime.getTime());
   }
+
+  /** Call site of the logging call, set when `captureCaller` is enabled */
+  get caller(): StackFrame | null {
+    return this.#caller;
+  }
+
+  /** The default has to be evaluated synchronously inside the logging
+   * call.
+   */
+  captureCaller(caller: StackFrame | null = findCaller()): void {
+    this.#caller = caller;
+  }
+}
+
+export interface TimerOptions {
+  /** Level of the record with the duration, default "INFO" */
+  level?: LevelName;
+  /** Only log operations taking at least this long */
+  threshold?: number | string;
+}
+
+export interface SpanOptions extends TimerOptions {
+  /** Extra fields for the records of the span */
+  fields?: Record<string, unknown>;
+}
+
+function createSpanId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(8)))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function elapsedSince(start: number): number {
+  return Math.round((performance.now() - start) * 1000) / 1000;
 }
 
 export interface LoggerOptions {
   handlers?: BaseHandler[];
   returnResult?: boolean;
+  fields?: Record<string, unknown>;
+  parent?: Logger | null;
+  propagate?: boolean;
+  filters?: LogFilter[];
+  /** Record the file, line and function of each call site */
+  captureCaller?: boolean;
 }
 
 export class Logger {
   #level: LogLevels;
   #handlers: BaseHandler[];
   #returnResult: boolean;
+  #parent: Logger | null;
+  #propagate: boolean;
+  #filters: LogFilter[];
+  #captureCaller: boolean;
+  #timers = new Map<string, number>();
   readonly #loggerName: string;
+  readonly #fields: Record<string, unknown>;
 
   constructor(
     loggerName: string,
@@ -67,6 +208,11 @@ export class Logger {
     this.#level = getLevelByName(levelName);
     this.#handlers = options.handlers || [];
     this.#returnResult = options.returnResult ?? false;
+    this.#fields = { ...options.fields };
+    this.#parent = options.parent ?? null;
+    this.#propagate = options.propagate ?? true;
+    this.#filters = options.filters || [];
+    this.#captureCaller = options.captureCaller ?? false;
   }
 
   get returnResult(): boolean {
@@ -76,20 +222,117 @@ export class Logger {
     this.#returnResult = flag;
   }
 
+  /** Effective level: a `NOTSET` logger uses the level of its parent */
   get level(): LogLevels {
+    if (this.#level === LogLevels.NOTSET && this.#parent) {
+      return this.#parent.level;
+    }
     return this.#level;
   }
   set level(level: LogLevels) {
     this.#level = level;
   }
 
+  /** Level set on this logger, `NOTSET` when it uses the one of its parent */
+  get ownLevel(): LogLevels {
+    return this.#level;
+  }
+
   get levelName(): LevelName {
-    return getLevelName(this.#level);
+    return getLevelName(this.level);
   }
   set levelName(levelName: LevelName) {
     this.#level = getLevelByName(levelName);
   }
 
+  /** Nearest configured ancestor in the dotted name hierarchy,
+   * e.g. "app" for "app.db"
+   */
+  get parent(): Logger | null {
+    return this.#parent;
+  }
+  set parent(parent: Logger | null) {
+    this.#parent = parent;
+  }
+
+  get propagate(): boolean {
+    return this.#propagate;
+  }
+  set propagate(flag: boolean) {
+    this.#propagate = flag;
+  }
+
+  /** Checked only for records created by this logger, records propagated
+   * from descendants are not filtered again.
+   */
+  get filters(): LogFilter[] {
+    return this.#filters;
+  }
+  set filters(filters: LogFilter[]) {
+    this.#filters = filters;
+  }
+
+  filter(record: LogRecord): boolean {
+    return applyFilters(this.filters, record);
+  }
+
+  get captureCaller(): boolean {
+    return this.#captureCaller;
+  }
+  set captureCaller(flag: boolean) {
+    this.#captureCaller = flag;
+  }
+
+  /** Whether this logger or a handler reached by its records asks for the
+   * call site, checked only for records that pass level and filters.
+   */
+  wantsCaller(): boolean {
+    let logger: Logger | null = this;
+
+    while (logger) {
+      if (
+        logger.captureCaller ||
+        logger.handlers.some((handler) => handler.captureCaller)
+      ) {
+        return true;
+      }
+      logger = logger.propagate ? logger.parent : null;
+    }
+
+    return false;
+  }
+
+  /** Whether records at `level` pass the level check, so expensive payloads
+   * can be skipped when they would be dropped anyway
+   */
+  isEnabledFor(level: LevelName | number): boolean {
+    return (typeof level === "number" ? level : getLevelByName(level)) >=
+      this.level;
+  }
+
+  /** Filters a new record, captures its call site when asked to and hands
+   * it to the handlers.  `caller` is passed when the call site was taken
+   * before the record could be created.
+   */
+  dispatch(record: LogRecord, caller?: StackFrame | null): void {
+    try {
+      if (!this.filter(record)) {
+        return;
+      }
+    } catch (err) {
+      // reported like a filter failing once async arguments settled
+      notifyHandlerError(err, null, null);
+      return;
+    }
+
+    if (caller !== undefined) {
+      record.captureCaller(caller);
+    } else if (this.wantsCaller()) {
+      record.captureCaller();
+    }
+    this.callHandlers(record);
+  }
+
   get loggerName(): string {
     return this.#loggerName;
   }
@@ -101,6 +344,115 @@ export class Logger {
     return this.#handlers;
   }
 
+  get fields(): Record<string, unknown> {
+    return { ...this.#fields };
+  }
+
+  /** Returns a logger that shares this logger's level and handlers and adds
+   * `fields` to every record it emits.  Children can be nested, fields of
+   * the inner child win over the same keys of its parents.
+   */
+  child(fields: Record<string, unknown>): Logger {
+    return new ChildLogger(this, { ...this.#fields, ...fields });
+  }
+
+  /** Starts a timer ended by `timeEnd` with the same label */
+  time(label: string): void {
+    this.#timers.set(label, performance.now());
+  }
+
+  /** Logs the time since `time(label)` with a `durationMs` field and
+   * returns it, or `undefined` for an unknown label.
+   */
+  timeEnd(label: string, options: TimerOptions = {}): number | undefined {
+    const start = this.#timers.get(label);
+    if (start === undefined) {
+      this.warning(`timer "${label}" does not exist`);
+      return undefined;
+    }
+    this.#timers.delete(label);
+
+    const durationMs = elapsedSince(start);
+    if (durationMs >= parseDuration(options.threshold ?? 0)) {
+      this.child({ timer: label, durationMs })
+        .log(options.level || "INFO", `${label}: ${durationMs}ms`);
+    }
+
+    return durationMs;
+  }
+
+  /** Runs `fn` and logs how long it took, or logs the error at ERROR and
+   * rethrows it.  Async functions are timed until their promise settles.
+   *
+   * `fn` gets a logger bound to the span's `spanId`; spans started from it
+   * are nested and carry its id as `parentSpanId`.  With a `threshold` the
+   * "started" record is skipped and only slow operations are logged.
+   */
+  span<T>(
+    name: string,
+    fn: (logger: Logger) => T,
+    options: SpanOptions = {},
+  ): T {
+    const parentSpanId = this.fields.spanId;
+    const spanLogger = this.child({
+      ...options.fields,
+      span: name,
+      spanId: createSpanId(),
+      ...(parentSpanId !== undefined ? { parentSpanId } : {}),
+    });
+    const threshold = parseDuration(options.threshold ?? 0);
+
+    if (!threshold) {
+      spanLogger.debug(`${name} started`);
+    }
+
+    const start = performance.now();
+    const finish = (): void => {
+      const durationMs = elapsedSince(start);
+      if (durationMs >= threshold) {
+        spanLogger.child({ durationMs })
+          .log(options.level || "INFO", `${name} finished in ${durationMs}ms`);
+      }
+    };
+    const fail = (err: unknown): never => {
+      const durationMs = elapsedSince(start);
+      spanLogger.child({ durationMs })
+        .error(`${name} failed after ${durationMs}ms`, err);
+      throw err;
+    };
+
+    let result: T;
+    try {
+      result = fn(spanLogger);
+    } catch (err) {
+      return fail(err);
+    }
+
+    if (result instanceof Promise) {
+      return result.then((value) => {
+        finish();
+        return value;
+      }, fail) as unknown as T;
+    }
+
+    finish();
+    return result;
+  }
+
+  /** Passes `record` to the handlers of this logger and, as long as
+   * `propagate` is set, to the handlers of its ancestors.
+   */
+  callHandlers(record: LogRecord): void {
+    let logger: Logger | null = this;
+
+    while (logger) {
+      logger.handlers.forEach((handler): void => {
+        handler.receive(record);
+      });
+      logger = logger.propagate ? logger.parent : null;
+    }
+  }
+
   /** If the level of the logger is greater than the level to log, then nothing
    * is logged, otherwise a log record is passed to each log handler.  `msg` data
    * passed in is returned.  If a function is passed in, it is only evaluated
@@ -113,46 +465,71 @@ export class Logger {
     ...args: unknown[]
   ): string | undefined {
     if (this.level > level) {
-      return this.#returnResult ? stripColor(argsToString(args)) : undefined;
+      return this.returnResult && !hasThunks(args)
+        ? stripColor(argsToString(args))
+        : undefined;
     }
 
+    args = redactArgs(resolveThunks(args));
     const record: LogRecord = new LogRecord({
       msg: argsToString(args),
       args,
       level: level,
       loggerName: this.loggerName,
+      fields: this.#fields,
     });
 
-    this.#handlers.forEach((handler): void => {
-      handler.handle(record);
-    });
+    this.dispatch(record);
 
-    if (this.#returnResult) {
+    if (this.returnResult) {
       return record.clearMsg;
     }
   }
 
+  /** Same as `_log` for format strings.  Thunks may also be async, the
+   * record is then logged once they settle and `undefined` is returned.
+   */
   private _logFormat(
     level: number,
     format: string,
     ...args: unknown[]
   ): string | undefined {
     if (this.level > level) {
-      return this.returnResult
+      return this.returnResult && !hasThunks(args)
         ? stripColor(this.msgFormat(format, args))
         : undefined;
     }
 
+    args = resolveThunks(args);
+    if (args.some(isPromiseLike)) {
+      // the call site is gone once the thunks have settled
+      const caller = this.wantsCaller() ? findCaller() : null;
+      settleArgs(args).then((values): void => {
+        this._emitFormat(level, format, values, caller);
+      }).catch((err): void => notifyHandlerError(err, null, null));
+      return undefined;
+    }
+
+    return this._emitFormat(level, format, args);
+  }
+
+  private _emitFormat(
+    level: number,
+    format: string,
+    args: unknown[],
+    caller?: StackFrame | null,
+  ): string | undefined {
+    args = redactArgs(args);
     const record: LogRecord = new LogRecord({
       msg: this.msgFormat(format, args),
       args,
       level: level,
       loggerName: this.loggerName,
+      fields: this.#fields,
+      template: format,
     });
 
-    this.#handlers.forEach((handler): void => {
-      handler.handle(record);
-    });
+    this.dispatch(record, caller);
 
     if (this.returnResult) {
       return record.clearMsg;
@@ -192,6 +569,19 @@ export class Logger {
     });
   }
 
+  /** Logs at any registered level, including custom ones such as TRACE */
+  log(levelName: LevelName, ...args: unknown[]): string | undefined {
+    return this._log(getLevelByName(levelName), ...args);
+  }
+
+  logFormat(
+    levelName: LevelName,
+    format: string,
+    ...args: unknown[]
+  ): string | undefined {
+    return this._logFormat(getLevelByName(levelName), format, ...args);
+  }
+
   debug(...args: unknown[]): string | undefined {
     return this._log(LogLevels.DEBUG, ...args);
   }
@@ -233,6 +623,79 @@ export class Logger {
   }
 }
 
+/** Logger returned by `Logger.child`.  Level, handlers, `returnResult` and
+ * the place in the hierarchy are read from and written to the logger it was
+ * created from, so changing them on either side affects both.
+ */
+export class ChildLogger extends Logger {
+  readonly #origin: Logger;
+
+  constructor(origin: Logger, fields: Record<string, unknown>) {
+    super(origin.loggerName, "NOTSET", { fields });
+    this.#origin = origin;
+  }
+
+  get returnResult(): boolean {
+    return this.#origin.returnResult;
+  }
+  set returnResult(flag: boolean) {
+    this.#origin.returnResult = flag;
+  }
+
+  get level(): LogLevels {
+    return this.#origin.level;
+  }
+  set level(level: LogLevels) {
+    this.#origin.level = level;
+  }
+
+  get levelName(): LevelName {
+    return this.#origin.levelName;
+  }
+  set levelName(levelName: LevelName) {
+    this.#origin.levelName = levelName;
+  }
+
+  set handlers(hndls: BaseHandler[]) {
+    this.#origin.handlers = hndls;
+  }
+  get handlers(): BaseHandler[] {
+    return this.#origin.handlers;
+  }
+
+  get parent(): Logger | null {
+    return this.#origin.parent;
+  }
+  set parent(parent: Logger | null) {
+    this.#origin.parent = parent;
+  }
+
+  get propagate(): boolean {
+    return this.#origin.propagate;
+  }
+  set propagate(flag: boolean) {
+    this.#origin.propagate = flag;
+  }
+
+  get filters(): LogFilter[] {
+    return this.#origin.filters;
+  }
+  set filters(filters: LogFilter[]) {
+    this.#origin.filters = filters;
+  }
+
+  get captureCaller(): boolean {
+    return this.#origin.captureCaller;
+  }
+  set captureCaller(flag: boolean) {
+    this.#origin.captureCaller = flag;
+  }
+
+  callHandlers(record: LogRecord): void {
+    this.#origin.callHandlers(record);
+  }
+}
+
 export class LoggerCategory {
   readonly #category: string;
   readonly #logger: Logger;
@@ -242,24 +705,37 @@ export class LoggerCategory {
     this.#logger = logger;
   }
 
+  get fields(): Record<string, unknown> {
+    return this.#logger.fields;
+  }
+
+  /** Same as `Logger.child`, the returned logger keeps this category */
+  child(fields: Record<string, unknown>): LoggerCategory {
+    return new LoggerCategory(this.#category, this.#logger.child(fields));
+  }
+
+  isEnabledFor(level: LevelName | number): boolean {
+    return this.#logger.isEnabledFor(level);
+  }
+
   private _log(level: number, ...args: unknown[]): string | undefined {
     if (this.#logger.level > level) {
-      return this.#logger.returnResult
+      return this.#logger.returnResult && !hasThunks(args)
         ? stripColor(argsToString(args))
         : undefined;
     }
 
+    args = redactArgs(resolveThunks(args));
     const record: LogRecord = new LogRecord({
       msg: argsToString(args),
       args,
       level: level,
       loggerName: this.#logger.loggerName,
       category: this.#category,
+      fields: this.#logger.fields,
     });
 
-    this.#logger.handlers.forEach((handler): void => {
-      handler.handle(record);
-    });
+    this.#logger.dispatch(record);
 
     if (this.#logger.returnResult) {
       return record.clearMsg;
@@ -272,28 +748,61 @@ export class LoggerCategory {
     ...args: unknown[]
   ): string | undefined {
     if (this.#logger.level > level) {
-      return this.#logger.returnResult
+      return this.#logger.returnResult && !hasThunks(args)
         ? stripColor(this.#logger.msgFormat(format, args))
         : undefined;
     }
 
+    args = resolveThunks(args);
+    if (args.some(isPromiseLike)) {
+      const caller = this.#logger.wantsCaller() ? findCaller() : null;
+      settleArgs(args).then((values): void => {
+        this._emitFormat(level, format, values, caller);
+      }).catch((err): void => notifyHandlerError(err, null, null));
+      return undefined;
+    }
+
+    return this._emitFormat(level, format, args);
+  }
+
+  private _emitFormat(
+    level: number,
+    format: string,
+    args: unknown[],
+    caller?: StackFrame | null,
+  ): string | undefined {
+    args = redactArgs(args);
     const record: LogRecord = new LogRecord({
       msg: this.#logger.msgFormat(format, args),
       args: [],
       level: level,
       loggerName: this.#logger.loggerName,
       category: this.#category,
+      fields: this.#logger.fields,
+      template: format,
+      error: captureError(args),
     });
 
-    this.#logger.handlers.forEach((handler): void => {
-      handler.handle(record);
-    });
+    this.#logger.dispatch(record, caller);
 
     if (this.#logger.returnResult) {
       return record.clearMsg;
     }
   }
 
+  /** Logs at any registered level, including custom ones such as TRACE */
+  log(levelName: LevelName, ...args: unknown[]): string | undefined {
+    return this._log(getLevelByName(levelName), ...args);
+  }
+
+  logFormat(
+    levelName: LevelName,
+    format: string,
+    ...args: unknown[]
+  ): string | undefined {
+    return this._logFormat(getLevelByName(levelName), format, ...args);
+  }
+
   debug(...args: unknown[]): string | undefined {
     return this._log(LogLevels.DEBUG, ...args);
   }
@@ -1,8 +1,20 @@
 // Copyright 2018-2020 the Deno authors. All rights reserved. MIT license.
-import { assertEquals, assert } from "./test_deps.ts";
+import {
+  assertEquals,
+  assert,
+  assertThrows,
+  assertThrowsAsync,
+} from "./test_deps.ts";
 import { LogRecord, Logger } from "./logger.ts";
-import { LogLevels, LevelName } from "./levels.ts";
-import { BaseHandler } from "./handlers.ts";
+import {
+  LogLevels,
+  LevelName,
+  registerLevel,
+  unregisterLevel,
+  getLevelByName,
+  getLevelName,
+} from "./levels.ts";
+import { BaseHandler, setHandlerErrorCallback } from "./handlers.ts";
 
 class TestHandler extends BaseHandler {
   public messages: string[] = [];
@@ -152,3 +164,224 @@ Deno.test(
     assertEquals(inlineData, undefined);
   },
 );
+
+Deno.test("childLoggerBindsFields", function (): void {
+  const handler = new TestHandler("DEBUG", {
+    formatter: "[{requestId}] {levelName} {msg} {userId}",
+  });
+  const logger = new Logger("default", "INFO", { handlers: [handler] });
+  const child = logger.child({ requestId: "r1" });
+  const nested = child.child({ userId: 42 });
+
+  child.info("hello");
+  nested.info("world");
+  nested.debug("hidden");
+
+  logger.level = LogLevels.DEBUG;
+  nested.debug("visible");
+
+  assertEquals(handler.messages, [
+    "[r1] INFO hello {userId}",
+    "[r1] INFO world 42",
+    "[r1] DEBUG visible 42",
+  ]);
+  assertEquals(handler.records[1].fields, { requestId: "r1", userId: 42 });
+  assertEquals(logger.fields, {});
+  assertEquals(nested.handlers, [handler]);
+});
+
+Deno.test("customLevels", function (): void {
+  registerLevel("TRACE", 5);
+  registerLevel("NOTICE", 25);
+
+  try {
+    const handler = new TestHandler("NOTSET");
+    const logger = new Logger("default", "TRACE" as LevelName, {
+      handlers: [handler],
+    });
+
+    logger.log("TRACE" as LevelName, "trace");
+    logger.logFormat("NOTICE" as LevelName, "notice {0}", 1);
+    logger.levelName = "WARNING";
+    logger.log("NOTICE" as LevelName, "hidden");
+
+    assertEquals(handler.messages, ["TRACE trace", "NOTICE notice 1"]);
+    assertEquals(getLevelByName("NOTICE" as LevelName), 25);
+    assertEquals(getLevelName(5), "TRACE");
+    assertThrows(() => registerLevel("TRACE", 6));
+    assertThrows(() => registerLevel("VERBOSE", LogLevels.DEBUG));
+    assertThrows(() => unregisterLevel("DEBUG"));
+  } finally {
+    unregisterLevel("TRACE");
+    unregisterLevel("NOTICE");
+  }
+
+  assertThrows(() => getLevelByName("TRACE" as LevelName));
+  assertThrows(() => getLevelName(25));
+});
+
+Deno.test("captureCallerRecordsTheCallSite", function (): void {
+  const handler = new TestHandler("DEBUG", {
+    formatter: "{func} {line} {msg}",
+    captureCaller: true,
+  });
+  const plain = new TestHandler("DEBUG");
+  const logger = new Logger("app", "INFO", { handlers: [handler] });
+  const other = new Logger("other", "DEBUG", { handlers: [plain] });
+
+  function emitFromHere(): void {
+    logger.debug("suppressed");
+    logger.info("emitted");
+    other.info("not captured");
+  }
+  emitFromHere();
+
+  assertEquals(handler.records.length, 1);
+  const caller = handler.records[0].caller!;
+  assertEquals(caller.func, "emitFromHere");
+  assert(caller.file.endsWith("logger_test.ts"));
+  assertEquals(handler.messages, [`emitFromHere ${caller.line} emitted`]);
+  assertEquals(plain.records[0].caller, null);
+
+  other.captureCaller = true;
+  other.child({ id: 1 }).info("child");
+  assert(plain.records[1].caller!.file.endsWith("logger_test.ts"));
+});
+
+Deno.test("spansLogDurations", async function (): Promise<void> {
+  const handler = new TestHandler("DEBUG");
+  const logger = new Logger("db", "DEBUG", { handlers: [handler] });
+
+  const rows = logger.span("query", (spanLogger) => {
+    spanLogger.span("parse", () => 1);
+    return 3;
+  });
+  assertEquals(rows, 3);
+  assertEquals(handler.messages.map((msg) => msg.replace(/[\d.]+ms/, "Nms")), [
+    "DEBUG query started",
+    "DEBUG parse started",
+    "INFO parse finished in Nms",
+    "INFO query finished in Nms",
+  ]);
+
+  const [query, parse] = [handler.records[3], handler.records[2]];
+  assertEquals(typeof query.fields.durationMs, "number");
+  assertEquals(parse.fields.parentSpanId, query.fields.spanId);
+  assertEquals(query.fields.parentSpanId, undefined);
+
+  const failure = new Error("connection reset");
+  await assertThrowsAsync(
+    () =>
+      logger.span("insert", async () => {
+        await Promise.resolve();
+        throw failure;
+      }),
+    Error,
+    "connection reset",
+  );
+  const failed = handler.records[handler.records.length - 1];
+  assertEquals(failed.levelName, "ERROR");
+  assert(failed.msg.startsWith("insert failed after "));
+  assertEquals(failed.error!.message, "connection reset");
+
+  handler.records = [];
+  assertEquals(
+    await logger.span("fast", async () => "ok", { threshold: "1m" }),
+    "ok",
+  );
+  assertEquals(handler.records.length, 0);
+
+  logger.time("load");
+  const durationMs = logger.timeEnd("load", { level: "DEBUG" });
+  assertEquals(handler.records[0].fields.durationMs, durationMs);
+  assertEquals(handler.records[0].fields.timer, "load");
+  assertEquals(logger.timeEnd("load"), undefined);
+});
+
+Deno.test("lazyArguments", async function (): Promise<void> {
+  const handler = new TestHandler("DEBUG");
+  const logger = new Logger("default", "INFO", {
+    handlers: [handler],
+    returnResult: true,
+  });
+  const calls: string[] = [];
+  const thunk = (name: string) => (): string => {
+    calls.push(name);
+    return name;
+  };
+
+  assert(!logger.isEnabledFor("DEBUG"));
+  assert(logger.isEnabledFor(LogLevels.ERROR));
+
+  assertEquals(logger.debug(thunk("debug")), undefined);
+  assertEquals(logger.info("state", thunk("info")), "state info");
+  assertEquals(logger.infoFormat("{0} and {1}", thunk("a"), 2), "a and 2");
+  assertEquals(calls, ["info", "a"]);
+
+  let resolveState: (value: string) => void = () => {};
+  const pending = new Promise<string>((resolve) => resolveState = resolve);
+  assertEquals(logger.warningFormat("state: {0}", () => pending), undefined);
+  assertEquals(handler.messages.length, 2);
+
+  resolveState("ready");
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(handler.messages[2], "WARNING state: ready");
+
+  logger.errorFormat("lookup: {0}", () => Promise.reject(new Error("gone")));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(handler.messages[3].split("\n")[0], "ERROR lookup: Error: gone");
+  assertEquals(handler.records[3].error!.message, "gone");
+
+  const broken = (): string => {
+    throw new Error("broken");
+  };
+  assertEquals(logger.info("state", broken), "state Error: broken");
+  assertEquals(handler.records[4].error!.message, "broken");
+});
+
+Deno.test("asyncArgumentFailures", async function (): Promise<void> {
+  const failures: unknown[] = [];
+  setHandlerErrorCallback((err, handler, record): void => {
+    failures.push(err, handler, record);
+  });
+
+  try {
+    const logger = new Logger("default", "INFO", {
+      handlers: [new TestHandler("DEBUG")],
+      filters: [(): boolean => {
+        throw new Error("filter failed");
+      }],
+    });
+    logger.infoFormat("{0}", () => Promise.resolve("late"));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    assertEquals((failures[0] as Error).message, "filter failed");
+    assertEquals(failures.slice(1), [null, null]);
+  } finally {
+    setHandlerErrorCallback(null);
+  }
+});
+
+Deno.test("filterFailures", function (): void {
+  const failures: unknown[] = [];
+  setHandlerErrorCallback((err, handler, record): void => {
+    failures.push(err, handler, record);
+  });
+
+  try {
+    const handler = new TestHandler("DEBUG");
+    const logger = new Logger("default", "INFO", {
+      handlers: [handler],
+      filters: [(): boolean => {
+        throw new Error("filter failed");
+      }],
+    });
+
+    logger.info("hidden");
+    assertEquals(handler.messages, []);
+    assertEquals((failures[0] as Error).message, "filter failed");
+    assertEquals(failures.slice(1), [null, null]);
+  } finally {
+    setHandlerErrorCallback(null);
+  }
+});
@@ -6,25 +6,86 @@ import {
   WriterHandler,
   FileHandler,
   RotatingFileHandler,
+  TimedRotatingFileHandler,
+  HandlerErrorCallback,
+  reportHandlerError,
+  setHandlerErrorCallback,
 } from "./handlers.ts";
 import { assert } from "./util/assert.ts";
-import type { LevelName } from "./levels.ts";
+import { loadConfigFile } from "./config.ts";
+import { getLevelByName, LevelName, LogLevels } from "./levels.ts";
+import type { LogFilter } from "./filters.ts";
+import { RedactionOptions, setRedaction } from "./redact.ts";
+import { parseDuration } from "./util/time.ts";
+import { basename, dirname } from "./deps.ts";
+import { findParentLogger, getLogger, registry } from "./registry.ts";
 
-export { LogLevels, LevelName } from "./levels.ts";
-export { Logger } from "./logger.ts";
+export {
+  LogLevels,
+  LevelName,
+  LevelNames,
+  LevelStyle,
+  registerLevel,
+  unregisterLevel,
+  getLevelNames,
+} from "./levels.ts";
+export { Logger, ChildLogger } from "./logger.ts";
+export { getHandlers, getLogger, getLoggers } from "./registry.ts";
+export { jsonFormatter } from "./formatters.ts";
+export type { JsonFormatterOptions } from "./formatters.ts";
+export {
+  categoryFilter,
+  loggerNameFilter,
+  msgFilter,
+  fieldsFilter,
+  notFilter,
+} from "./filters.ts";
+export type { LogFilter, CategoryFilterOptions } from "./filters.ts";
+export { ConfigError, buildConfig, loadConfigFile } from "./config.ts";
+export { redactionPatterns } from "./redact.ts";
+export { reportHandlerError } from "./handlers.ts";
+export type { HandlerErrorCallback, HandlerHealth } from "./handlers.ts";
+export type { RedactionOptions, RedactionPattern } from "./redact.ts";
 
 export class LoggerConfig {
   level?: LevelName;
   handlers?: string[];
+  /** Pass records on to the handlers of ancestor loggers (default `true`) */
+  propagate?: boolean;
+  /** Names of filters declared in `LogConfig.filters` */
+  filters?: string[];
+  /** Record the file, line and function of each call site */
+  captureCaller?: boolean;
+}
+
+export interface HandlerConfig {
+  handler: BaseHandler;
+  /** Names of filters declared in `LogConfig.filters`, they replace the
+   * filters passed to the handler constructor
+   */
+  filters?: string[];
+  /** Describes how the handler was built, `reloadConfig` keeps the running
+   * handler when the signature did not change
+   */
+  signature?: string;
 }
 
 export interface LogConfig {
   handlers?: {
-    [name: string]: BaseHandler;
+    [name: string]: BaseHandler | HandlerConfig;
   };
   loggers?: {
     [name: string]: LoggerConfig;
   };
+  filters?: {
+    [name: string]: LogFilter;
+  };
+  /** Applied to every record before any handler sees it */
+  redact?: RedactionOptions;
+  /** Called when a handler fails, default `reportHandlerError` */
+  onHandlerError?: HandlerErrorCallback;
+  /** Name of a handler that gets the records another handler failed on */
+  fallbackHandler?: string;
 }
 
 const DEFAULT_LEVEL = "INFO";
@@ -42,8 +103,6 @@ const DEFAULT_CONFIG: LogConfig = {
 };
 
 const state = {
-  handlers: new Map<string, BaseHandler>(),
-  loggers: new Map<string, Logger>(),
   config: DEFAULT_CONFIG,
 };
 
@@ -53,26 +112,9 @@ export const handlers = {
   WriterHandler,
   FileHandler,
   RotatingFileHandler,
+  TimedRotatingFileHandler,
 };
 
-export function getLogger(name?: string): Logger {
-  if (!name) {
-    const d = state.loggers.get("default");
-    assert(
-      d != null,
-      `"default" logger must be set for getting logger without name`,
-    );
-    return d;
-  }
-  const result = state.loggers.get(name);
-  if (!result) {
-    const logger = new Logger(name, "NOTSET", { handlers: [] });
-    state.loggers.set(name, logger);
-    return logger;
-  }
-  return result;
-}
-
 export function createCategoryLogger(
   category: string = "default",
   nameLogger?: string,
@@ -80,6 +122,26 @@ export function createCategoryLogger(
   return new LoggerCategory(category, getLogger(nameLogger));
 }
 
+/** Whether the default logger would log a record at `level` */
+export function isEnabledFor(level: LevelName | number): boolean {
+  return getLogger("default").isEnabledFor(level);
+}
+
+export function log(
+  levelName: LevelName,
+  ...args: unknown[]
+): string | undefined {
+  return getLogger("default").log(levelName, ...args);
+}
+
+export function logFormat(
+  levelName: LevelName,
+  format: string,
+  ...args: unknown[]
+): string | undefined {
+  return getLogger("default").logFormat(levelName, format, ...args);
+}
+
 export function debug(...args: unknown[]): string | undefined {
   return getLogger("default").debug(...args);
 }
@@ -135,48 +197,521 @@ export function criticalFormat(
   return getLogger("default").criticalFormat(format, ...args);
 }
 
-export async function setup(config: LogConfig): Promise<void> {
-  state.config = {
+function resolveFilters(
+  names: string[],
+  config: LogConfig = state.config,
+): LogFilter[] {
+  const filters = config.filters || {};
+
+  return names.map((name): LogFilter => {
+    const filter = filters[name];
+    assert(filter != null, `filter "${name}" is not declared in config`);
+    return filter;
+  });
+}
+
+/** Merges `config` with the defaults */
+function normalizeConfig(config: LogConfig): LogConfig {
+  return {
     handlers: { ...DEFAULT_CONFIG.handlers, ...config.handlers },
     loggers: { ...DEFAULT_CONFIG.loggers, ...config.loggers },
+    filters: { ...config.filters },
+    redact: config.redact,
+    onHandlerError: config.onHandlerError,
+    fallbackHandler: config.fallbackHandler,
   };
+}
 
-  // tear down existing handlers
-  state.handlers.forEach((handler): void => {
-    handler.destroy();
-  });
-  state.handlers.clear();
+/** Makes `config`, merged with the defaults, the current config and
+ * installs its process-wide settings
+ */
+function installConfig(config: LogConfig): void {
+  state.config = normalizeConfig(config);
+  setRedaction(config.redact);
+  setHandlerErrorCallback(createErrorCallback(state.config));
+}
+
+/** Throws for undeclared filters and unknown levels before anything of
+ * `config` is applied
+ */
+function checkLoggerConfigs(config: LogConfig): void {
+  const loggers = config.loggers || {};
 
-  // setup handlers
+  for (const loggerName in loggers) {
+    const loggerConfig = loggers[loggerName];
+    getLevelByName(loggerConfig.level || "NOTSET");
+    resolveFilters(loggerConfig.filters || [], config);
+  }
+}
+
+/** Sets up the handlers of the current config, except for those already
+ * `running`
+ */
+async function setupHandlers(
+  running: Set<BaseHandler> = new Set(),
+): Promise<void> {
   const handlers = state.config.handlers || {};
+  registry.handlers = new Map();
 
   for (const handlerName in handlers) {
-    const handler = handlers[handlerName];
-    await handler.setup();
-    state.handlers.set(handlerName, handler);
+    const { handler, filters } = unwrapHandlerConfig(handlers[handlerName]);
+    if (filters) {
+      handler.filters = resolveFilters(filters);
+    }
+
+    if (!running.has(handler)) {
+      await handler.setup();
+    }
+    registry.handlers.set(handlerName, handler);
   }
+}
+
+export async function setup(config: LogConfig): Promise<void> {
+  installConfig(config);
+
+  // tear down existing handlers
+  registry.handlers.forEach((handler): void => {
+    handler.destroy();
+  });
+
+  await setupHandlers();
 
   // remove existing loggers
-  state.loggers.clear();
+  registry.loggers.clear();
 
   // setup loggers
   const loggers = state.config.loggers || {};
   for (const loggerName in loggers) {
     const loggerConfig = loggers[loggerName];
-    const handlerNames = loggerConfig.handlers || [];
-    const handlers: BaseHandler[] = [];
 
-    handlerNames.forEach((handlerName): void => {
-      const handler = state.handlers.get(handlerName);
-      if (handler) {
-        handlers.push(handler);
+    // without an explicit level a logger inherits it from its parent
+    const levelName = loggerConfig.level || "NOTSET";
+    const logger = new Logger(loggerName, levelName, {
+      handlers: resolveHandlers(loggerConfig.handlers || []),
+      propagate: loggerConfig.propagate,
+      filters: resolveFilters(loggerConfig.filters || []),
+      captureCaller: loggerConfig.captureCaller,
+    });
+    registry.loggers.set(loggerName, logger);
+  }
+
+  linkLoggers();
+}
+
+function createErrorCallback(config: LogConfig): HandlerErrorCallback {
+  const callback = config.onHandlerError || reportHandlerError;
+  const fallbackName = config.fallbackHandler;
+
+  return (error, handler, logRecord): void => {
+    callback(error, handler, logRecord);
+
+    const fallback = fallbackName ? registry.handlers.get(fallbackName) : null;
+    // a failing fallback is only reported
+    if (logRecord && fallback && fallback !== handler) {
+      fallback.receive(logRecord);
+    }
+  };
+}
+
+function resolveHandlers(names: string[]): BaseHandler[] {
+  const handlers: BaseHandler[] = [];
+
+  names.forEach((handlerName): void => {
+    const handler = registry.handlers.get(handlerName);
+    if (handler) {
+      handlers.push(handler);
+    }
+  });
+
+  return handlers;
+}
+
+/** Links the hierarchy once every configured logger exists */
+function linkLoggers(): void {
+  const loggers = state.config.loggers || {};
+
+  registry.loggers.forEach((logger): void => {
+    logger.parent = findParentLogger(logger.loggerName);
+
+    const loggerConfig = loggers[logger.loggerName];
+    if (!logger.parent && loggerConfig && !loggerConfig.level) {
+      logger.levelName = DEFAULT_LEVEL;
+    }
+  });
+}
+
+function unwrapHandlerConfig(
+  handlerConfig: BaseHandler | HandlerConfig,
+): HandlerConfig {
+  return handlerConfig instanceof BaseHandler
+    ? { handler: handlerConfig }
+    : handlerConfig;
+}
+
+/** Whether a reload may keep the running handler instead of `next` */
+function isSameHandler(
+  current: BaseHandler,
+  previous: HandlerConfig | null,
+  next: HandlerConfig,
+): boolean {
+  if (current === next.handler) {
+    return true;
+  }
+
+  return previous !== null && previous.signature !== undefined &&
+    previous.signature === next.signature;
+}
+
+/** Applies `config` to the running loggers instead of replacing them like
+ * `setup` does: loggers returned by `getLogger` stay valid, and handlers
+ * whose definition did not change keep running with their buffers and
+ * queues, only their level and filters are updated.  Handlers that were
+ * removed or changed are destroyed after the loggers stop using them.
+ */
+export async function reloadConfig(config: LogConfig): Promise<void> {
+  const previous = state.config;
+  const nextConfig = normalizeConfig(config);
+  checkLoggerConfigs(nextConfig);
+
+  const previousHandlers = previous.handlers || {};
+  const handlers = nextConfig.handlers || {};
+  const retired = new Map(registry.handlers);
+  const active = new Map<string, BaseHandler>();
+  const started: BaseHandler[] = [];
+  // running handlers are only changed once every new one is set up
+  const updates: Array<() => void> = [];
+
+  try {
+    for (const handlerName in handlers) {
+      const next = unwrapHandlerConfig(handlers[handlerName]);
+      const current = retired.get(handlerName);
+      const filters = next.filters
+        ? resolveFilters(next.filters, nextConfig)
+        : next.handler.filters;
+
+      if (
+        current && isSameHandler(
+          current,
+          previousHandlers[handlerName]
+            ? unwrapHandlerConfig(previousHandlers[handlerName])
+            : null,
+          next,
+        )
+      ) {
+        updates.push((): void => {
+          current.level = next.handler.level;
+          current.levelName = next.handler.levelName;
+          current.filters = filters;
+        });
+        retired.delete(handlerName);
+        active.set(handlerName, current);
+      } else {
+        next.handler.filters = filters;
+        await next.handler.setup();
+        started.push(next.handler);
+        active.set(handlerName, next.handler);
       }
+    }
+  } catch (err) {
+    for (const handler of started) {
+      await handler.destroy().catch(console.error);
+    }
+    throw err;
+  }
+
+  updates.forEach((update) => update());
+  installConfig(config);
+  registry.handlers = active;
+  applyLoggerConfigs(previous);
+
+  for (const handler of retired.values()) {
+    await handler.destroy();
+  }
+}
+
+/** Updates the running loggers in place from the current config */
+function applyLoggerConfigs(previous: LogConfig): void {
+  const loggers = state.config.loggers || {};
+  const previousLoggers = previous.loggers || {};
+
+  registry.loggers.forEach((logger, loggerName): void => {
+    // loggers dropped from the config fall back to what getLogger creates
+    if (!(loggerName in loggers) && loggerName in previousLoggers) {
+      logger.levelName = "NOTSET";
+      logger.handlers = [];
+      logger.propagate = true;
+      logger.filters = [];
+      logger.captureCaller = false;
+    }
+  });
+
+  for (const loggerName in loggers) {
+    const loggerConfig = loggers[loggerName];
+    let logger = registry.loggers.get(loggerName);
+
+    if (!logger) {
+      logger = new Logger(loggerName, "NOTSET");
+      registry.loggers.set(loggerName, logger);
+    }
+
+    logger.levelName = loggerConfig.level || "NOTSET";
+    logger.handlers = resolveHandlers(loggerConfig.handlers || []);
+    logger.propagate = loggerConfig.propagate ?? true;
+    logger.filters = resolveFilters(loggerConfig.filters || []);
+    logger.captureCaller = loggerConfig.captureCaller ?? false;
+  }
+
+  linkLoggers();
+}
+
+interface LoggerSnapshot {
+  level: number;
+  handlers: BaseHandler[];
+  propagate: boolean;
+  filters: LogFilter[];
+  captureCaller: boolean;
+}
+
+function takeSnapshot(logger: Logger): LoggerSnapshot {
+  return {
+    level: logger.ownLevel,
+    handlers: logger.handlers,
+    propagate: logger.propagate,
+    filters: logger.filters,
+    captureCaller: logger.captureCaller,
+  };
+}
+
+/** Runs `fn` with `config` and restores the running config afterwards,
+ * also when `fn` or the setup of a handler throws.  Loggers are updated in
+ * place as by `reloadConfig` and get back the state they had before, also
+ * changes made in code.  The running handlers are kept as they are, without
+ * receiving records, while the new ones are set up before and destroyed
+ * after `fn`.
+ */
+export async function withConfig<T>(
+  config: LogConfig,
+  fn: () => T | Promise<T>,
+): Promise<T> {
+  const previous = state.config;
+  const previousHandlers = registry.handlers;
+  const running = new Set(previousHandlers.values());
+  const snapshots = new Map<Logger, LoggerSnapshot>();
+  registry.loggers.forEach((logger): void => {
+    snapshots.set(logger, takeSnapshot(logger));
+  });
+
+  try {
+    installConfig(config);
+    await setupHandlers(running);
+    applyLoggerConfigs(previous);
+
+    return await fn();
+  } finally {
+    const swapped = registry.handlers;
+
+    installConfig(previous);
+    registry.handlers = previousHandlers;
+    registry.loggers.forEach((logger): void => {
+      // loggers created meanwhile start over as `getLogger` creates them
+      const snapshot = snapshots.get(logger) ?? {
+        level: LogLevels.NOTSET,
+        handlers: [],
+        propagate: true,
+        filters: [],
+        captureCaller: false,
+      };
+
+      logger.level = snapshot.level;
+      logger.handlers = snapshot.handlers;
+      logger.propagate = snapshot.propagate;
+      logger.filters = snapshot.filters;
+      logger.captureCaller = snapshot.captureCaller;
     });
+    linkLoggers();
 
-    const levelName = loggerConfig.level || DEFAULT_LEVEL;
-    const logger = new Logger(loggerName, levelName, { handlers: handlers });
-    state.loggers.set(loggerName, logger);
+    for (const handler of swapped.values()) {
+      if (!running.has(handler)) {
+        await handler.destroy();
+      }
+    }
   }
 }
 
+export interface ConfigWatcher {
+  /** Stops watching, a reload in progress still completes */
+  close(): void;
+}
+
+export interface WatchConfigOptions {
+  /** Wait for writes to settle before reloading, default 100 ms */
+  debounce?: number;
+  onReload?: () => void;
+  /** Called when the file cannot be loaded, the running config is kept */
+  onError?: (err: Error) => void;
+}
+
+/** Watches a JSON or YAML config file and applies every change with
+ * `reloadConfig`.
+ */
+export function watchConfigFile(
+  path: string,
+  options: WatchConfigOptions = {},
+): ConfigWatcher {
+  // editors often save by renaming a new file over the old one, which
+  // ends a watch on the file itself
+  const watcher = Deno.watchFs(dirname(path));
+  const name = basename(path);
+  const debounce = options.debounce ?? 100;
+  const onError = options.onError ||
+    ((err: Error): void => console.error(err));
+  let timer: number | null = null;
+  let reloading = Promise.resolve();
+
+  const reload = (): void => {
+    timer = null;
+    reloading = reloading
+      .then(() => loadConfigFile(path))
+      .then((config) => reloadConfig(config))
+      .then(() => options.onReload?.())
+      .catch(onError);
+  };
+
+  (async (): Promise<void> => {
+    for await (const event of watcher) {
+      if (
+        (event.kind === "modify" || event.kind === "create") &&
+        event.paths.some((changed) => basename(changed) === name)
+      ) {
+        if (timer !== null) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(reload, debounce);
+      }
+    }
+  })().catch(onError);
+
+  return {
+    close(): void {
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      watcher.return?.();
+    },
+  };
+}
+
+/** Same as `setup`, with the config read from a JSON or YAML file, see
+ * `buildConfig` for the format.
+ */
+export async function setupFromFile(path: string): Promise<void> {
+  await setup(await loadConfigFile(path));
+}
+
+export interface ShutdownOptions {
+  /** Stop waiting for handlers after this long, default 5 seconds */
+  timeout?: number | string;
+}
+
+export interface SignalOptions extends ShutdownOptions {
+  /** Default `SIGINT` and `SIGTERM` */
+  signals?: Deno.Signal[];
+}
+
+/** Resolves with `false` when `work` did not finish within `timeout` ms */
+async function withTimeout(
+  work: Promise<unknown>,
+  timeout: number,
+): Promise<boolean> {
+  let timer: number | undefined;
+  const finished = await Promise.race([
+    work.then((): boolean => true),
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeout);
+    }),
+  ]);
+  clearTimeout(timer);
+  return finished;
+}
+
+function settleAll(
+  handlers: BaseHandler[],
+  fn: (handler: BaseHandler) => void | Promise<void>,
+): Promise<unknown> {
+  return Promise.all(handlers.map(async (handler): Promise<void> => {
+    try {
+      await fn(handler);
+    } catch (err) {
+      console.error(err);
+    }
+  }));
+}
+
+/** Waits until every handler has written or sent the records logged so
+ * far, e.g. before a short-lived script exits.  Resolves with `false` when
+ * a handler did not finish within `timeout`.
+ */
+export function flush(options: ShutdownOptions = {}): Promise<boolean> {
+  return withTimeout(
+    settleAll([...registry.handlers.values()], (handler) => handler.flush()),
+    parseDuration(options.timeout ?? "5s"),
+  );
+}
+
+/** Flushes and destroys every handler, each step waiting at most
+ * `timeout`.  Loggers stay usable but have no handlers until the next
+ * `setup`.  Resolves with `false` when something timed out.
+ */
+export async function shutdown(
+  options: ShutdownOptions = {},
+): Promise<boolean> {
+  const timeout = parseDuration(options.timeout ?? "5s");
+  const handlers = [...registry.handlers.values()];
+
+  registry.handlers.clear();
+  registry.loggers.forEach((logger): void => {
+    logger.handlers = [];
+  });
+
+  const flushed = await withTimeout(
+    settleAll(handlers, (handler) => handler.flush()),
+    timeout,
+  );
+  // after a timed out flush, destroying drops whatever is still queued
+  const destroyed = await withTimeout(
+    settleAll(handlers, (handler) => handler.destroy()),
+    timeout,
+  );
+
+  return flushed && destroyed;
+}
+
+/** Runs `shutdown` when the process receives one of `signals` and exits
+ * with 128 + the signal number.  `Deno.signal` requires `--unstable`.
+ * Returns a function that removes the hooks again.
+ */
+export function shutdownOnSignals(options: SignalOptions = {}): () => void {
+  const signals = options.signals ||
+    [Deno.Signal.SIGINT, Deno.Signal.SIGTERM];
+
+  const streams = signals.map((signal): Deno.SignalStream => {
+    const stream = Deno.signal(signal);
+
+    (async (): Promise<void> => {
+      // ends without iterating once the stream is disposed
+      for await (const _ of stream) {
+        await shutdown(options);
+        Deno.exit(128 + signal);
+      }
+    })();
+
+    return stream;
+  });
+
+  return (): void => {
+    streams.forEach((stream) => stream.dispose());
+  };
+}
+
 await setup(DEFAULT_CONFIG);
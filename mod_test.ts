@@ -1,5 +1,5 @@
 // Copyright 2018-2020 the Deno authors. All rights reserved. MIT license.
-import { assert, assertEquals } from "./test_deps.ts";
+import { assert, assertEquals, assertThrowsAsync } from "./test_deps.ts";
 import {
   getLogger,
   debug,
@@ -11,8 +11,21 @@ import {
   Logger,
   LogLevels,
   LevelName,
+  createCategoryLogger,
+  categoryFilter,
+  msgFilter,
+  notFilter,
+  reloadConfig,
+  redactionPatterns,
+  flush,
+  shutdown,
+  getHandlers,
+  setupFromFile,
+  watchConfigFile,
+  jsonFormatter,
 } from "./mod.ts";
 import { BaseHandler } from "./handlers.ts";
+import { LogRecord } from "./logger.ts";
 
 class TestHandler extends BaseHandler {
   public messages: string[] = [];
@@ -196,3 +209,368 @@ Deno.test({
     assertEquals(testHandlerB.messages.length, 2);
   },
 });
+
+Deno.test({
+  name: "Dotted logger names inherit level and propagate to ancestors",
+  async fn() {
+    const appHandler = new TestHandler("DEBUG");
+    const dbHandler = new TestHandler("DEBUG");
+    const cacheHandler = new TestHandler("DEBUG");
+    await setup({
+      handlers: {
+        app: appHandler,
+        db: dbHandler,
+        cache: cacheHandler,
+      },
+
+      loggers: {
+        app: {
+          level: "WARNING",
+          handlers: ["app"],
+        },
+        "app.db": {
+          handlers: ["db"],
+        },
+        "app.cache": {
+          level: "DEBUG",
+          handlers: ["cache"],
+          propagate: false,
+        },
+      },
+    });
+
+    const pool = getLogger("app.db.pool");
+    assertEquals(pool.parent, getLogger("app.db"));
+    assertEquals(pool.levelName, "WARNING");
+
+    pool.info("hidden");
+    pool.error("pool");
+    getLogger("app.cache").debug("cache");
+
+    assertEquals(dbHandler.messages, ["ERROR pool"]);
+    assertEquals(appHandler.messages, ["ERROR pool"]);
+    assertEquals(cacheHandler.messages, ["DEBUG cache"]);
+  },
+});
+
+Deno.test({
+  name: "Filters declared in config apply to loggers and handlers",
+  async fn() {
+    const allHandler = new TestHandler("DEBUG");
+    const paymentsHandler = new TestHandler("ERROR");
+    await setup({
+      filters: {
+        payments: categoryFilter({ allow: ["payments"] }),
+        noHealth: notFilter(msgFilter(/healthcheck/)),
+      },
+
+      handlers: {
+        all: allHandler,
+        payments: { handler: paymentsHandler, filters: ["payments"] },
+      },
+
+      loggers: {
+        default: {
+          level: "DEBUG",
+          handlers: ["all", "payments"],
+          filters: ["noHealth"],
+        },
+      },
+    });
+
+    getLogger().info("healthcheck ok");
+    getLogger().error("boom");
+    createCategoryLogger("payments").error("declined");
+
+    assertEquals(allHandler.messages, ["ERROR boom", "ERROR declined"]);
+    assertEquals(paymentsHandler.messages, ["ERROR declined"]);
+  },
+});
+
+Deno.test({
+  name: "reloadConfig updates running loggers and keeps unchanged handlers",
+  async fn() {
+    const keptHandler = new TestHandler("DEBUG");
+    const removedHandler = new TestHandler("DEBUG");
+    await setup({
+      handlers: {
+        kept: { handler: keptHandler, signature: "kept" },
+        removed: removedHandler,
+      },
+
+      loggers: {
+        app: {
+          level: "INFO",
+          handlers: ["kept", "removed"],
+        },
+      },
+    });
+
+    const logger = getLogger("app");
+    logger.debug("hidden");
+    logger.info("before");
+
+    await reloadConfig({
+      handlers: {
+        kept: { handler: new TestHandler("WARNING"), signature: "kept" },
+      },
+
+      loggers: {
+        app: {
+          level: "DEBUG",
+          handlers: ["kept"],
+        },
+      },
+    });
+
+    assert(getLogger("app") === logger);
+    logger.debug("after");
+    logger.warning("after");
+
+    assertEquals(keptHandler.levelName, "WARNING");
+    assertEquals(keptHandler.messages, ["INFO before", "WARNING after"]);
+    assertEquals(removedHandler.messages, ["INFO before"]);
+  },
+});
+
+Deno.test({
+  name: "reloadConfig keeps the running config when a handler fails",
+  async fn() {
+    class FailingHandler extends TestHandler {
+      async setup(): Promise<void> {
+        throw new Error("cannot open");
+      }
+    }
+    class TrackedHandler extends TestHandler {
+      public destroyed = false;
+
+      async destroy(): Promise<void> {
+        this.destroyed = true;
+      }
+    }
+
+    const running = new TestHandler("DEBUG");
+    await setup({
+      handlers: { running },
+      loggers: { app: { level: "INFO", handlers: ["running"] } },
+    });
+
+    const started = new TrackedHandler("DEBUG");
+    await assertThrowsAsync(
+      () =>
+        reloadConfig({
+          handlers: { started, failing: new FailingHandler("DEBUG") },
+          loggers: { app: { level: "DEBUG", handlers: ["started"] } },
+        }),
+      Error,
+      "cannot open",
+    );
+
+    assert(started.destroyed);
+    assert(getHandlers().get("running") === running);
+    getLogger("app").debug("hidden");
+    getLogger("app").info("kept");
+    assertEquals(running.messages, ["INFO kept"]);
+
+    await setup({});
+  },
+});
+
+Deno.test({
+  name: "watchConfigFile reloads a file replaced by rename",
+  async fn() {
+    const dir = await Deno.makeTempDir();
+    const path = `${dir}/log.json`;
+    const write = async (level: string): Promise<void> => {
+      // written the way editors save: a new file renamed over the old one
+      await Deno.writeTextFile(
+        `${path}.tmp`,
+        JSON.stringify({ loggers: { watched: { level } } }),
+      );
+      await Deno.rename(`${path}.tmp`, path);
+    };
+
+    await write("ERROR");
+    await setupFromFile(path);
+    assertEquals(getLogger("watched").levelName, "ERROR");
+
+    for (const level of ["DEBUG", "WARNING"]) {
+      let reloaded: () => void = () => {};
+      const reload = new Promise<void>((resolve) => reloaded = resolve);
+      const watcher = watchConfigFile(path, {
+        debounce: 10,
+        onReload: () => reloaded(),
+      });
+
+      await write(level);
+      await reload;
+      watcher.close();
+      assertEquals(getLogger("watched").levelName, level);
+    }
+
+    await Deno.remove(dir, { recursive: true });
+    await setup({});
+  },
+});
+
+Deno.test({
+  name: "Secrets are redacted before handlers see the record",
+  async fn() {
+    const handler = new TestHandler("DEBUG", { formatter: "{msg} {user}" });
+    const records: LogRecord[] = [];
+    handler.handle = (record: LogRecord): void => {
+      records.push(record);
+      BaseHandler.prototype.handle.call(handler, record);
+    };
+
+    await setup({
+      handlers: { test: handler },
+      loggers: { default: { level: "DEBUG", handlers: ["test"] } },
+      redact: {
+        keys: ["password", "botToken"],
+        patterns: [redactionPatterns.bearer, redactionPatterns.cardNumber],
+      },
+    });
+
+    const credentials = { user: "ann", password: "hunter2" };
+    const logger = getLogger().child({ bot_token: "123:abc", user: "ann" });
+    logger.info("login", credentials);
+    logger.infoFormat("header Authorization: Bearer {0}", "abc.def");
+    logger.info("card 4111 1111 1111 1111, order 1234567890123");
+    const url = new URL("https://example.com/?password=hunter2");
+    logger.info("fetched", url);
+    class Credentials {
+      constructor(public user: string, public password: string) {}
+    }
+    logger.info("signed in", new Credentials("ann", "hunter2"));
+
+    assertEquals(credentials.password, "hunter2");
+    assertEquals(records[0].args, [{ user: "ann", password: "[REDACTED]" }]);
+    assertEquals(records[0].fields.bot_token, "[REDACTED]");
+    assert(!handler.messages[0].includes("hunter2"));
+    assertEquals(
+      handler.messages[1],
+      "header Authorization: Bearer [REDACTED] ann",
+    );
+    assertEquals(
+      handler.messages[2],
+      "card [REDACTED], order 1234567890123 ann",
+    );
+    // instances without own properties are passed through untouched
+    assert(records[3].args[0] === url);
+    assert(records[4].args[0] instanceof Credentials);
+    assert(!records[4].msg.includes("hunter2"));
+    assert(!jsonFormatter()(records[4]).includes("hunter2"));
+
+    await setup({});
+  },
+});
+
+Deno.test({
+  name: "flush and shutdown wait for async handlers",
+  async fn() {
+    class AsyncHandler extends BaseHandler {
+      public written: string[] = [];
+      public destroyed = false;
+
+      async handle(record: LogRecord): Promise<void> {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        this.written.push(record.msg);
+      }
+
+      async destroy(): Promise<void> {
+        this.destroyed = true;
+      }
+    }
+
+    class StuckHandler extends BaseHandler {
+      flush(): Promise<void> {
+        return new Promise(() => {});
+      }
+    }
+
+    const asyncHandler = new AsyncHandler("DEBUG");
+    await setup({
+      handlers: { async: asyncHandler },
+      loggers: { default: { level: "DEBUG", handlers: ["async"] } },
+    });
+
+    info("first");
+    info("second");
+    assertEquals(asyncHandler.written, []);
+    assertEquals(await flush(), true);
+    assertEquals(asyncHandler.written, ["first", "second"]);
+
+    info("last");
+    assertEquals(await shutdown(), true);
+    assertEquals(asyncHandler.written, ["first", "second", "last"]);
+    assert(asyncHandler.destroyed);
+    info("after shutdown");
+    assertEquals(asyncHandler.written.length, 3);
+
+    await setup({
+      handlers: { stuck: new StuckHandler("DEBUG") },
+      loggers: { default: { level: "DEBUG", handlers: ["stuck"] } },
+    });
+    assertEquals(await flush({ timeout: 20 }), false);
+
+    await setup({});
+  },
+});
+
+Deno.test({
+  name: "A failing handler does not affect the others",
+  async fn() {
+    class BrokenHandler extends BaseHandler {
+      log(_msg: string): void {
+        throw new Error("disk full");
+      }
+    }
+
+    class RejectingHandler extends BaseHandler {
+      async handle(_record: LogRecord): Promise<void> {
+        throw new Error("endpoint down");
+      }
+    }
+
+    const broken = new BrokenHandler("DEBUG");
+    const rejecting = new RejectingHandler("DEBUG");
+    const working = new TestHandler("DEBUG");
+    const fallback = new TestHandler("DEBUG");
+    const failures: string[] = [];
+
+    await setup({
+      handlers: { broken, rejecting, working, fallback },
+      loggers: {
+        default: {
+          level: "DEBUG",
+          handlers: ["broken", "rejecting", "working"],
+        },
+      },
+      fallbackHandler: "fallback",
+      onHandlerError: (err, handler, record): void => {
+        const name = handler?.constructor.name;
+        failures.push(`${name} ${(err as Error).message} ${record?.msg}`);
+      },
+    });
+
+    info("saved");
+    await flush();
+
+    assertEquals(working.messages, ["INFO saved"]);
+    assertEquals(failures, [
+      "BrokenHandler disk full saved",
+      "RejectingHandler endpoint down saved",
+    ]);
+    assertEquals(fallback.messages, ["INFO saved", "INFO saved"]);
+
+    const health = broken.health;
+    assertEquals(health.received, 1);
+    assertEquals(health.failures, 1);
+    assertEquals(health.consecutiveFailures, 1);
+    assertEquals((health.lastError as Error).message, "disk full");
+    assertEquals(working.health.failures, 0);
+
+    await setup({});
+  },
+});
@@ -0,0 +1,597 @@
+/** Searches files written by `FileHandler`, `RotatingFileHandler` and
+ * `TimedRotatingFileHandler`, including their rotated and compressed
+ * backups:
+ *
+ *     deno run --allow-read query.ts app.log --level WARNING --since 2h
+ *
+ * Run with `--help` for every option.
+ */
+import {
+  basename,
+  dirname,
+  exists,
+  gunzip,
+  parseFlags,
+  readLines,
+  stripColor,
+} from "./deps.ts";
+import { getLevelByName, getLevelStyle, LevelName } from "./levels.ts";
+import { formatError } from "./formatters.ts";
+import { compareTimedSuffixes, TIMED_BACKUP_SUFFIX } from "./handlers.ts";
+import { asString, isObject } from "./util/helpers.ts";
+import { isSerializedError, SerializedError } from "./util/serialize.ts";
+import { parseDuration } from "./util/time.ts";
+
+export interface LogEntry {
+  datetime: Date | null;
+  level: number | null;
+  levelName: string | null;
+  loggerName: string | null;
+  category: string | null;
+  msg: string;
+  /** Bound fields, or the values of other tokens of a template */
+  fields: Record<string, unknown>;
+  error: SerializedError | null;
+  /** Text as written to the file, continuation lines included */
+  lines: string[];
+}
+
+/** Returns `null` for lines that continue the previous entry, such as
+ * stack traces.  `day` provides the date for templates that only print
+ * the time.
+ */
+export type LineParser = (line: string, day: Date) => LogEntry | null;
+
+export interface LogQuery {
+  minLevel?: number;
+  maxLevel?: number;
+  since?: Date;
+  until?: Date;
+  /** Also matches descendants, e.g. "app" matches "app.db" */
+  loggerName?: string;
+  category?: string;
+  /** Searched in the whole entry as written to the file */
+  text?: string | RegExp;
+}
+
+const GZIP_EXT = ".gz";
+const NUMBERED_SUFFIX = /^(\d+)(\.gz)?$/;
+
+/** Returns the log file and its backups, oldest first */
+export async function getLogFiles(filename: string): Promise<string[]> {
+  const dir = dirname(filename);
+  const prefix = basename(filename) + ".";
+  const timed: string[] = [];
+  const numbered: Array<[number, string]> = [];
+
+  for await (const entry of Deno.readDir(dir)) {
+    if (!entry.isFile || !entry.name.startsWith(prefix)) {
+      continue;
+    }
+
+    const suffix = entry.name.slice(prefix.length);
+    const matches = NUMBERED_SUFFIX.exec(suffix);
+    if (matches) {
+      numbered.push([Number(matches[1]), suffix]);
+    } else if (TIMED_BACKUP_SUFFIX.test(suffix)) {
+      timed.push(suffix);
+    }
+  }
+
+  // RotatingFileHandler keeps the newest backup in `.1`
+  const result = timed
+    .sort(compareTimedSuffixes)
+    .concat(numbered.sort((a, b) => b[0] - a[0]).map(([, suffix]) => suffix))
+    .map((suffix) => `${filename}.${suffix}`);
+
+  if (await exists(filename)) {
+    result.push(filename);
+  }
+
+  return result;
+}
+
+export async function* readLogLines(
+  path: string,
+): AsyncIterableIterator<string> {
+  if (path.endsWith(GZIP_EXT)) {
+    const text = new TextDecoder().decode(gunzip(await Deno.readFile(path)));
+    yield* text.split("\n");
+    return;
+  }
+
+  const file = await Deno.open(path);
+  try {
+    yield* readLines(file);
+  } finally {
+    file.close();
+  }
+}
+
+/** Reads the entries of `files` in order, lines the parser does not
+ * recognize are added to the previous entry.  The modification time of
+ * each file is the `day` passed to the parser.
+ */
+export async function* readEntries(
+  files: string[],
+  parser: LineParser,
+): AsyncIterableIterator<LogEntry> {
+  for (const path of files) {
+    const day = (await Deno.stat(path)).mtime || new Date();
+    let entry: LogEntry | null = null;
+
+    for await (const line of readLogLines(path)) {
+      if (!line) {
+        continue;
+      }
+
+      const next = parser(stripColor(line), day);
+      if (next) {
+        if (entry) {
+          yield entry;
+        }
+        entry = next;
+      } else if (entry) {
+        entry.lines.push(line);
+      }
+    }
+
+    if (entry) {
+      yield entry;
+    }
+  }
+}
+
+function levelByName(name: string): number | null {
+  try {
+    return getLevelByName(name as LevelName);
+  } catch {
+    // a custom level of the application that wrote the file
+    return null;
+  }
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+/** Parses a line written by `jsonFormatter` */
+export function parseJsonLine(line: string): LogEntry | null {
+  if (!line.startsWith("{")) {
+    return null;
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    return null;
+  }
+
+  const datetime = typeof data.datetime === "string"
+    ? new Date(data.datetime)
+    : null;
+  const levelName = stringOrNull(data.levelName);
+
+  return {
+    datetime: datetime && !isNaN(datetime.getTime()) ? datetime : null,
+    level: typeof data.level === "number"
+      ? data.level
+      : levelName ? levelByName(levelName) : null,
+    levelName,
+    loggerName: stringOrNull(data.loggerName),
+    category: stringOrNull(data.category),
+    msg: data.msg == null ? "" : asString(data.msg),
+    fields: isObject(data.fields) ? data.fields as Record<string, unknown> : {},
+    error: isSerializedError(data.error) ? data.error : null,
+    lines: [line],
+  };
+}
+
+/** Named formats understood by `dateToString` */
+const DATETIME_FORMATS: Record<string, string> = {
+  ISO8601: "yyyy-MM-ddThh:mm:ss.SSS",
+  ISO8601_WITH_TZ_OFFSET: "yyyy-MM-ddThh:mm:ss.SSSO",
+  DATETIME: "dd MM yyyy hh:mm:ss.SSS",
+  ABSOLUTETIME: "hh:mm:ss.SSS",
+};
+
+const DATETIME_TOKENS: Record<string, string> = {
+  yyyy: "\\d{4}",
+  yy: "\\d{2}",
+  MM: "\\d{2}",
+  dd: "\\d{2}",
+  hh: "\\d{2}",
+  mm: "\\d{2}",
+  ss: "\\d{2}",
+  SSS: "\\d{3}",
+  O: "Z|[+-]\\d{2}:?\\d{2}",
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+interface DatetimeParser {
+  /** Matches a formatted datetime, without capturing groups */
+  pattern: string;
+  parse(value: string, day: Date): Date | null;
+}
+
+function createDatetimeParser(format: string): DatetimeParser {
+  format = DATETIME_FORMATS[format.replace(/_FORMAT$/, "")] || format;
+
+  const tokens: string[] = [];
+  let pattern = "";
+  let capturing = "";
+  let last = 0;
+
+  for (const match of format.matchAll(/yyyy|yy|MM|dd|hh|mm|ss|SSS|O/g)) {
+    const literal = escapeRegExp(format.slice(last, match.index));
+    pattern += `${literal}(?:${DATETIME_TOKENS[match[0]]})`;
+    capturing += `${literal}(${DATETIME_TOKENS[match[0]]})`;
+    tokens.push(match[0]);
+    last = match.index! + match[0].length;
+  }
+
+  const literal = escapeRegExp(format.slice(last));
+  const regex = new RegExp(`^${capturing}${literal}$`);
+
+  return {
+    pattern: pattern + literal,
+    parse(value: string, day: Date): Date | null {
+      const matches = regex.exec(value);
+      if (!matches) {
+        return null;
+      }
+
+      const parts: Record<string, number> = {
+        yyyy: day.getFullYear(),
+        MM: day.getMonth() + 1,
+        dd: day.getDate(),
+        hh: 0,
+        mm: 0,
+        ss: 0,
+        SSS: 0,
+      };
+      let offset: string | null = null;
+
+      for (let i = 0; i < tokens.length; i++) {
+        const part = matches[i + 1];
+        if (tokens[i] === "O") {
+          offset = part;
+        } else if (tokens[i] === "yy") {
+          parts.yyyy = 2000 + Number(part);
+        } else {
+          parts[tokens[i]] = Number(part);
+        }
+      }
+
+      const { yyyy, MM, dd, hh, mm, ss, SSS } = parts;
+      if (offset === null) {
+        return new Date(yyyy, MM - 1, dd, hh, mm, ss, SSS);
+      }
+
+      const [, sign, hours, minutes] =
+        /^([+-])(\d{2}):?(\d{2})$/.exec(offset) || ["Z", "+", "0", "0"];
+      const offsetMs = (Number(hours) * 60 + Number(minutes)) * 60 * 1000;
+      return new Date(
+        Date.UTC(yyyy, MM - 1, dd, hh, mm, ss, SSS) -
+          (sign === "-" ? -offsetMs : offsetMs),
+      );
+    },
+  };
+}
+
+/** Parses lines written with the `formatter` string and `datetimeFormat`
+ * of a handler, e.g. "{datetime} {levelName} {loggerName} {msg}".  Tokens
+ * other than the record properties end up in `fields`.
+ */
+export function createTemplateParser(
+  formatter: string,
+  datetimeFormat = "ABSOLUTETIME",
+): LineParser {
+  const datetime = createDatetimeParser(datetimeFormat);
+  const tokens: string[] = [];
+  let source = "";
+  let last = 0;
+
+  for (const match of formatter.matchAll(/{(\w+)}/g)) {
+    source += escapeRegExp(formatter.slice(last, match.index));
+    last = match.index! + match[0].length;
+
+    const token = match[1];
+    const isLast = last === formatter.length;
+    tokens.push(token);
+
+    if (token === "datetime") {
+      source += `(${datetime.pattern})`;
+    } else if (token === "level") {
+      source += "(\\d+)";
+    } else if (token === "levelName") {
+      source += "([A-Z][A-Z0-9_]*)";
+    } else if (token === "loggerName") {
+      source += "(\\S+)";
+    } else {
+      source += isLast ? "(.*)" : "(.*?)";
+    }
+  }
+
+  const regex = new RegExp(`^${source}${escapeRegExp(formatter.slice(last))}$`);
+
+  return (line: string, day: Date): LogEntry | null => {
+    const matches = regex.exec(line);
+    if (!matches) {
+      return null;
+    }
+
+    const entry: LogEntry = {
+      datetime: null,
+      level: null,
+      levelName: null,
+      loggerName: null,
+      category: null,
+      msg: "",
+      fields: {},
+      error: null,
+      lines: [line],
+    };
+
+    tokens.forEach((token, i): void => {
+      const value = matches[i + 1];
+
+      // handlers print missing values as the token itself
+      if (value === `{${token}}`) {
+        return;
+      }
+
+      if (token === "datetime") {
+        entry.datetime = datetime.parse(value, day);
+      } else if (token === "level") {
+        entry.level = Number(value);
+      } else if (
+        token === "levelName" || token === "loggerName" ||
+        token === "category" || token === "msg"
+      ) {
+        entry[token] = value;
+      } else {
+        entry.fields[token] = value;
+      }
+    });
+
+    if (entry.level === null && entry.levelName) {
+      entry.level = levelByName(entry.levelName);
+    }
+
+    return entry;
+  };
+}
+
+export function matchesQuery(entry: LogEntry, query: LogQuery): boolean {
+  const { level, datetime, loggerName } = entry;
+
+  if (query.minLevel !== undefined) {
+    if (level === null || level < query.minLevel) return false;
+  }
+  if (query.maxLevel !== undefined) {
+    if (level === null || level > query.maxLevel) return false;
+  }
+  if (query.since) {
+    if (!datetime || datetime < query.since) return false;
+  }
+  if (query.until) {
+    if (!datetime || datetime > query.until) return false;
+  }
+  if (query.loggerName !== undefined) {
+    if (
+      loggerName !== query.loggerName &&
+      !loggerName?.startsWith(query.loggerName + ".")
+    ) {
+      return false;
+    }
+  }
+  if (query.category !== undefined && entry.category !== query.category) {
+    return false;
+  }
+  if (query.text !== undefined) {
+    const text = stripColor(entry.lines.join("\n"));
+    if (typeof query.text === "string") {
+      return text.includes(query.text);
+    }
+    query.text.lastIndex = 0;
+    return query.text.test(text);
+  }
+
+  return true;
+}
+
+/** Renders an entry read from JSON lines the way a handler prints it */
+export function formatEntry(entry: LogEntry): string {
+  const parts = [
+    entry.datetime ? entry.datetime.toISOString() : "-",
+    entry.levelName || String(entry.level ?? "-"),
+    (entry.loggerName || "-") +
+    (entry.category ? `:${entry.category}` : ""),
+    entry.msg,
+  ];
+  if (Object.keys(entry.fields).length) {
+    parts.push(JSON.stringify(entry.fields));
+  }
+
+  const details = entry.error
+    ? formatError(entry.error, { header: false })
+    : "";
+  return parts.join(" ") + (details ? "\n" + details : "");
+}
+
+function colorize(text: string, entry: LogEntry): string {
+  const { color, colorMsg } = getLevelStyle(entry.level ?? -1);
+  if (!color) {
+    return text;
+  }
+  if (colorMsg) {
+    return color(text);
+  }
+  return entry.levelName
+    ? text.replace(entry.levelName, color(entry.levelName))
+    : text;
+}
+
+function entryToJson(entry: LogEntry): string {
+  const { lines: _lines, error, ...rest } = entry;
+  return JSON.stringify({
+    ...rest,
+    datetime: entry.datetime?.toISOString() ?? null,
+    ...(error ? { error } : {}),
+  });
+}
+
+/** Accepts an ISO date or a duration with a unit before `now`, e.g. "2h",
+ * so a bare number such as "2024" is a year rather than milliseconds
+ */
+function parseTime(value: string, now: number): Date {
+  let date = new Date(NaN);
+
+  if (/^\s*\d+(\.\d+)?\s*(ms|s|m|h|d|w)\s*$/.test(value)) {
+    date = new Date(now - parseDuration(value));
+  } else if (/^\d{4}(-\d{2}){0,2}([T ]\d{2}:\d{2}.*)?$/.test(value)) {
+    date = new Date(value);
+  }
+
+  if (isNaN(date.getTime())) {
+    throw new Error(
+      `invalid time: "${value}", expected an ISO date or a duration such as 2h`,
+    );
+  }
+  return date;
+}
+
+const USAGE = `Usage: deno run --allow-read query.ts [options] <file>
+
+Reads <file> and its backups, oldest first, and prints matching entries.
+
+Options:
+  --format <template>         formatter string of the handler, JSON lines
+                              written by jsonFormatter when omitted
+  --datetime-format <format>  datetimeFormat of the handler (ABSOLUTETIME),
+                              a format without a date takes it from the
+                              modification time of each file
+  --level <name>              lowest level shown
+  --max-level <name>          highest level shown
+  --since <time>              ISO date or duration before now, e.g. 15m, 2h
+  --until <time>              ISO date or duration before now
+  --logger <name>             logger and its descendants
+  --category <name>
+  --text <text>               text anywhere in the entry
+  --regex <pattern>           pattern anywhere in the entry
+  --json                      print entries as JSON lines
+  --no-color                  do not colorize levels
+  --no-backups                only read <file> itself
+  -h, --help`;
+
+export function buildQuery(flags: Record<string, unknown>): LogQuery {
+  const query: LogQuery = {};
+  const now = Date.now();
+
+  if (flags.level) {
+    query.minLevel = getLevelByName(String(flags.level) as LevelName);
+  }
+  if (flags["max-level"]) {
+    query.maxLevel = getLevelByName(String(flags["max-level"]) as LevelName);
+  }
+  if (flags.since) {
+    query.since = parseTime(String(flags.since), now);
+  }
+  if (flags.until) {
+    query.until = parseTime(String(flags.until), now);
+  }
+  if (flags.logger) {
+    query.loggerName = String(flags.logger);
+  }
+  if (flags.category) {
+    query.category = String(flags.category);
+  }
+  if (flags.regex) {
+    query.text = new RegExp(String(flags.regex));
+  } else if (flags.text) {
+    query.text = String(flags.text);
+  }
+
+  return query;
+}
+
+export async function main(args: string[]): Promise<number> {
+  const flags = parseFlags(args, {
+    string: [
+      "format",
+      "datetime-format",
+      "level",
+      "max-level",
+      "since",
+      "until",
+      "logger",
+      "category",
+      "text",
+      "regex",
+    ],
+    boolean: ["json", "color", "backups", "help"],
+    alias: { h: "help" },
+    default: { color: !Deno.noColor, backups: true },
+  });
+
+  if (flags.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (flags._.length !== 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const filename = String(flags._[0]);
+  let query: LogQuery;
+  let parser: LineParser;
+
+  try {
+    query = buildQuery(flags);
+    parser = flags.format
+      ? createTemplateParser(flags.format, flags["datetime-format"])
+      : parseJsonLine;
+  } catch (err) {
+    console.error(`error: ${err.message}`);
+    return 2;
+  }
+
+  try {
+    const files = flags.backups ? await getLogFiles(filename) : [filename];
+    if (!files.length) {
+      console.error(`error: no log files found for ${filename}`);
+      return 1;
+    }
+
+    for await (const entry of readEntries(files, parser)) {
+      if (!matchesQuery(entry, query)) {
+        continue;
+      }
+
+      if (flags.json) {
+        console.log(entryToJson(entry));
+        continue;
+      }
+
+      const text = flags.format
+        ? stripColor(entry.lines.join("\n"))
+        : formatEntry(entry);
+      console.log(flags.color ? colorize(text, entry) : text);
+    }
+  } catch (err) {
+    console.error(`error: ${err.message}`);
+    return 1;
+  }
+
+  return 0;
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
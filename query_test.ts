@@ -0,0 +1,131 @@
+import { assert, assertEquals, assertThrows } from "./test_deps.ts";
+import { gzip } from "./deps.ts";
+import { LogLevels } from "./levels.ts";
+import { LogRecord } from "./logger.ts";
+import { jsonFormatter } from "./formatters.ts";
+import {
+  buildQuery,
+  createTemplateParser,
+  getLogFiles,
+  LogEntry,
+  main,
+  matchesQuery,
+  parseJsonLine,
+  readEntries,
+} from "./query.ts";
+
+const LOG_FILE = "./test_query.log";
+
+Deno.test({
+  name: "Reads backups oldest first and filters JSON lines",
+  async fn() {
+    const encoder = new TextEncoder();
+    const format = jsonFormatter();
+    const line = (level: number, loggerName: string, msg: string): string =>
+      format(new LogRecord({ msg, args: [], level, loggerName })) + "\n";
+
+    Deno.writeFileSync(
+      LOG_FILE + ".2.gz",
+      gzip(encoder.encode(line(LogLevels.INFO, "app", "started"))),
+    );
+    Deno.writeFileSync(
+      LOG_FILE + ".1",
+      encoder.encode(
+        line(LogLevels.WARNING, "app.db", "slow query") +
+          "not json\n" +
+          line(LogLevels.DEBUG, "app.db", "connected"),
+      ),
+    );
+    Deno.writeFileSync(
+      LOG_FILE,
+      encoder.encode(line(LogLevels.ERROR, "worker", "crashed")),
+    );
+    Deno.writeFileSync(LOG_FILE + ".bak", encoder.encode("ignored\n"));
+
+    const files = await getLogFiles(LOG_FILE);
+    assertEquals(files, [LOG_FILE + ".2.gz", LOG_FILE + ".1", LOG_FILE]);
+
+    const entries: LogEntry[] = [];
+    for await (const entry of readEntries(files, parseJsonLine)) {
+      entries.push(entry);
+    }
+
+    assertEquals(entries.map((entry) => entry.msg), [
+      "started",
+      "slow query",
+      "connected",
+      "crashed",
+    ]);
+    assertEquals(entries[1].lines.length, 2);
+    assert(entries[0].datetime instanceof Date);
+
+    const select = (flags: Record<string, unknown>): string[] =>
+      entries
+        .filter((entry) => matchesQuery(entry, buildQuery(flags)))
+        .map((entry) => entry.msg);
+
+    assertEquals(select({ level: "INFO", "max-level": "WARNING" }), [
+      "started",
+      "slow query",
+    ]);
+    assertEquals(select({ logger: "app" }), [
+      "started",
+      "slow query",
+      "connected",
+    ]);
+    assertEquals(select({ text: "not json" }), ["slow query"]);
+    assertEquals(select({ regex: "^.*crash" }), ["crashed"]);
+    assertEquals(select({ since: "1h" }).length, 4);
+    assertEquals(select({ until: "2000-01-01" }), []);
+    assertEquals(buildQuery({ since: "2024" }).since, new Date("2024"));
+    assertThrows(() => buildQuery({ since: "90" }), Error, "invalid time");
+    assertThrows(() => buildQuery({ until: "soon" }), Error, "invalid time");
+
+    Deno.removeSync(LOG_FILE);
+    Deno.removeSync(LOG_FILE + ".1");
+    Deno.removeSync(LOG_FILE + ".2.gz");
+    Deno.removeSync(LOG_FILE + ".bak");
+  },
+});
+
+Deno.test("parsesTemplateOutput", function (): void {
+  const day = new Date(2020, 6, 15);
+  const parse = createTemplateParser(
+    "{datetime} {levelName} {loggerName} [{category}] {msg} ({requestId})",
+  );
+
+  const entry = parse(
+    "09:05:01.250 WARNING app.db [pool] disk 91% full (r-1)",
+    day,
+  )!;
+  assertEquals(entry.datetime, new Date(2020, 6, 15, 9, 5, 1, 250));
+  assertEquals(entry.level, LogLevels.WARNING);
+  assertEquals(entry.loggerName, "app.db");
+  assertEquals(entry.category, "pool");
+  assertEquals(entry.msg, "disk 91% full");
+  assertEquals(entry.fields, { requestId: "r-1" });
+
+  // missing values are printed as the token
+  const plain = parse(
+    "09:05:02.000 INFO app [{category}] ready ({requestId})",
+    day,
+  )!;
+  assertEquals(plain.category, null);
+  assertEquals(plain.fields, {});
+
+  assertEquals(parse("    at main (file:///app.ts:1:1)", day), null);
+
+  const iso = createTemplateParser(
+    "{datetime} {levelName} {msg}",
+    "ISO8601_WITH_TZ_OFFSET",
+  );
+  assertEquals(
+    iso("2020-07-15T09:05:01.250+0200 ERROR boom", day)!.datetime,
+    new Date("2020-07-15T07:05:01.250Z"),
+  );
+});
+
+Deno.test("reportsUnreadableFiles", async function (): Promise<void> {
+  assertEquals(await main(["./missing_query_dir/app.log"]), 1);
+  assertEquals(await main(["--no-backups", LOG_FILE]), 1);
+});
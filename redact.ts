@@ -0,0 +1,191 @@
+export interface RedactionPattern {
+  pattern: RegExp;
+  /** Only matches passing this check are replaced */
+  test?: (match: string) => boolean;
+}
+
+export interface RedactionOptions {
+  /** Values of these keys are replaced at any depth of args, fields and
+   * error properties.  Strings match case-insensitively and ignore `-` and
+   * `_`, so "botToken" also matches "bot_token".
+   */
+  keys?: Array<string | RegExp>;
+  /** Replaced in the message and in every string value */
+  patterns?: Array<RegExp | RedactionPattern>;
+  /** Default "[REDACTED]" */
+  replacement?: string;
+}
+
+/** Passes the Luhn checksum used by payment card numbers */
+function isLuhnValid(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+export const redactionPatterns: Record<string, RedactionPattern> = {
+  jwt: { pattern: /\beyJ[\w-]*\.[\w-]*\.[\w-]*/g },
+  /** Keeps the scheme, e.g. "Bearer [REDACTED]" */
+  bearer: { pattern: /(?<=\bBearer\s+)[\w\-.~+/]+=*/gi },
+  cardNumber: { pattern: /\b(?:\d[ -]?){12,18}\d\b/g, test: isLuhnValid },
+};
+
+function normalizeKey(key: string): string {
+  return key.replace(/[-_]/g, "").toLowerCase();
+}
+
+function isContainer(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null ||
+    Array.isArray(value) || value instanceof Map || value instanceof Set ||
+    value instanceof Error;
+}
+
+/** Other instances are copied with their own enumerable properties, those
+ * without any keep their state in private fields or internal slots, e.g.
+ * URL and Headers, and pass through as is like typed arrays
+ */
+function isCopied(value: object): boolean {
+  return isContainer(value) ||
+    (!ArrayBuffer.isView(value) && Object.keys(value).length > 0);
+}
+
+export class Redactor {
+  #keys: Set<string>;
+  #keyPatterns: RegExp[];
+  #patterns: RedactionPattern[];
+  #replacement: string;
+  /** Copies made by this redactor, they need no second pass */
+  #redacted = new WeakSet<object>();
+
+  constructor(options: RedactionOptions) {
+    const keys = options.keys || [];
+
+    this.#keys = new Set(
+      keys.filter((key): key is string => typeof key === "string")
+        .map(normalizeKey),
+    );
+    this.#keyPatterns = keys.filter((key): key is RegExp =>
+      key instanceof RegExp
+    );
+    this.#patterns = (options.patterns || []).map((item) => {
+      const rule = item instanceof RegExp ? { pattern: item } : item;
+      const { pattern } = rule;
+      return pattern.global ? rule : {
+        ...rule,
+        pattern: new RegExp(pattern.source, pattern.flags + "g"),
+      };
+    });
+    this.#replacement = options.replacement ?? "[REDACTED]";
+  }
+
+  isSecretKey(key: string): boolean {
+    return this.#keys.has(normalizeKey(key)) ||
+      this.#keyPatterns.some((pattern) => pattern.test(key));
+  }
+
+  redactText(text: string): string {
+    return this.#patterns.reduce(
+      (result, { pattern, test }) =>
+        result.replace(
+          pattern,
+          (match) => !test || test(match) ? this.#replacement : match,
+        ),
+      text,
+    );
+  }
+
+  /** Returns a copy of `value` with secret keys and patterns replaced in
+   * plain objects, arrays, maps, sets, errors and the own enumerable
+   * properties of class instances.  Copied errors and instances keep their
+   * prototype so they still print the same way.
+   */
+  redact<T>(value: T, seen: Map<object, unknown> = new Map()): T {
+    if (typeof value === "string") {
+      return this.redactText(value) as unknown as T;
+    }
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+
+    const obj = value as unknown as object;
+    if (this.#redacted.has(obj) || !isCopied(obj)) {
+      return value;
+    }
+    if (seen.has(obj)) {
+      return seen.get(obj) as T;
+    }
+
+    let result: object;
+
+    if (Array.isArray(obj)) {
+      const items: unknown[] = [];
+      seen.set(obj, items);
+      obj.forEach((item) => items.push(this.redact(item, seen)));
+      result = items;
+    } else if (obj instanceof Map) {
+      const map = new Map();
+      seen.set(obj, map);
+      obj.forEach((item, key): void => {
+        map.set(
+          key,
+          typeof key === "string" && this.isSecretKey(key)
+            ? this.#replacement
+            : this.redact(item, seen),
+        );
+      });
+      result = map;
+    } else if (obj instanceof Set) {
+      const set = new Set();
+      seen.set(obj, set);
+      obj.forEach((item) => set.add(this.redact(item, seen)));
+      result = set;
+    } else {
+      result = Object.create(Object.getPrototypeOf(obj));
+      seen.set(obj, result);
+
+      // errors keep `message` and `stack` as non-enumerable own properties
+      const keys = obj instanceof Error
+        ? Object.getOwnPropertyNames(obj)
+        : Object.keys(obj);
+
+      for (const key of keys) {
+        const descriptor = Object.getOwnPropertyDescriptor(obj, key)!;
+        if ("value" in descriptor) {
+          descriptor.value = this.isSecretKey(key)
+            ? this.#replacement
+            : this.redact(descriptor.value, seen);
+        }
+        Object.defineProperty(result, key, descriptor);
+      }
+    }
+
+    this.#redacted.add(result);
+    return result as unknown as T;
+  }
+}
+
+let activeRedactor: Redactor | null = null;
+
+/** Installs the rules applied to every new `LogRecord`, `null` turns
+ * redaction off.  Called by `setup` with `LogConfig.redact`.
+ */
+export function setRedaction(options?: RedactionOptions | null): void {
+  activeRedactor = options ? new Redactor(options) : null;
+}
+
+export function getRedactor(): Redactor | null {
+  return activeRedactor;
+}
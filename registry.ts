@@ -0,0 +1,75 @@
+import { Logger } from "./logger.ts";
+import type { BaseHandler } from "./handlers.ts";
+import { assert } from "./util/assert.ts";
+
+/** Handlers and loggers of the running config.  Kept apart from mod.ts, so
+ * that handlers can look them up without importing the module that sets
+ * up the default config.
+ */
+export const registry = {
+  handlers: new Map<string, BaseHandler>(),
+  loggers: new Map<string, Logger>(),
+};
+
+export function getLogger(name?: string): Logger {
+  if (!name) {
+    const d = registry.loggers.get("default");
+    assert(
+      d != null,
+      `"default" logger must be set for getting logger without name`,
+    );
+    return d;
+  }
+  const result = registry.loggers.get(name);
+  if (!result) {
+    const logger = new Logger(name, "NOTSET", {
+      handlers: [],
+      parent: findParentLogger(name),
+    });
+    registry.loggers.set(name, logger);
+    adoptChildLoggers(logger);
+    return logger;
+  }
+  return result;
+}
+
+/** Returns the handlers set up from the current config, by name */
+export function getHandlers(): Map<string, BaseHandler> {
+  return new Map(registry.handlers);
+}
+
+/** Returns the configured loggers and those created by `getLogger` */
+export function getLoggers(): Map<string, Logger> {
+  return new Map(registry.loggers);
+}
+
+/** Returns the closest existing logger whose name is a dotted prefix of
+ * `name`, i.e. "app.db" or "app" for "app.db.pool".
+ */
+export function findParentLogger(name: string): Logger | null {
+  let parentName = name;
+
+  while (parentName.includes(".")) {
+    parentName = parentName.slice(0, parentName.lastIndexOf("."));
+    const parent = registry.loggers.get(parentName);
+    if (parent) {
+      return parent;
+    }
+  }
+
+  return null;
+}
+
+/** Re-parents loggers created before `logger` that belong below it */
+function adoptChildLoggers(logger: Logger): void {
+  const prefix = logger.loggerName + ".";
+
+  registry.loggers.forEach((child): void => {
+    if (
+      child !== logger && child.loggerName.startsWith(prefix) &&
+      findParentLogger(child.loggerName) === logger
+    ) {
+      child.parent = logger;
+    }
+  });
+}
@@ -5,3 +5,4 @@ export {
   assertThrowsAsync,
   assertNotEquals,
 } from "https://deno.land/std@0.60.0/testing/asserts.ts";
+export { serve } from "https://deno.land/std@0.62.0/http/server.ts";
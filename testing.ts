@@ -0,0 +1,143 @@
+import { getLoggers, LoggerConfig, LogConfig, withConfig } from "./mod.ts";
+import { CaptureHandler } from "./handlers/capture.handler.ts";
+import type { LogRecord } from "./logger.ts";
+import { getLevelByName, LevelName } from "./levels.ts";
+import { AssertionError, equal } from "./deps.ts";
+
+export { CaptureHandler } from "./handlers/capture.handler.ts";
+export { withConfig } from "./mod.ts";
+
+export interface LogMatcher {
+  level?: LevelName | number;
+  /** Substring of the message or a pattern it matches, colors removed */
+  msgMatch?: string | RegExp;
+  loggerName?: string;
+  category?: string;
+  /** Bound fields that must be deeply equal, others are ignored */
+  fields?: Record<string, unknown>;
+}
+
+export interface CaptureOptions {
+  /** Lowest level captured, default "DEBUG" */
+  level?: LevelName;
+  /** Loggers to capture that are not created yet when `fn` starts and
+   * have no ancestor among the existing ones
+   */
+  loggers?: string[];
+}
+
+type Captured = LogRecord[] | CaptureHandler;
+
+function matches(record: LogRecord, matcher: LogMatcher): boolean {
+  const { level, msgMatch, loggerName, category, fields } = matcher;
+
+  if (level !== undefined) {
+    const value = typeof level === "number" ? level : getLevelByName(level);
+    if (record.level !== value) return false;
+  }
+  if (msgMatch !== undefined) {
+    if (typeof msgMatch === "string") {
+      if (!record.clearMsg.includes(msgMatch)) return false;
+    } else {
+      msgMatch.lastIndex = 0;
+      if (!msgMatch.test(record.clearMsg)) return false;
+    }
+  }
+  if (loggerName !== undefined && record.loggerName !== loggerName) {
+    return false;
+  }
+  if (category !== undefined && record.category !== category) return false;
+  if (fields) {
+    const recordFields = record.fields;
+    return Object.keys(fields).every((key) =>
+      equal(recordFields[key], fields[key])
+    );
+  }
+
+  return true;
+}
+
+function listRecords(records: LogRecord[]): string {
+  if (!records.length) {
+    return "no records were captured";
+  }
+
+  const lines = records.map((record) =>
+    `  ${record.levelName} ${record.loggerName}${
+      record.category ? `:${record.category}` : ""
+    } ${record.clearMsg}`
+  );
+  return `captured records:\n${lines.join("\n")}`;
+}
+
+function toRecords(captured: Captured): LogRecord[] {
+  return captured instanceof CaptureHandler ? captured.records : captured;
+}
+
+/** Throws unless a captured record matches every given property, returns
+ * the first record that does
+ */
+export function assertLogged(
+  captured: Captured,
+  matcher: LogMatcher,
+): LogRecord {
+  const records = toRecords(captured);
+  const record = records.find((item) => matches(item, matcher));
+
+  if (!record) {
+    throw new AssertionError(
+      `Expected a record matching ${Deno.inspect(matcher)}, ${
+        listRecords(records)
+      }`,
+    );
+  }
+  return record;
+}
+
+/** Throws if any captured record matches every given property */
+export function assertNotLogged(
+  captured: Captured,
+  matcher: LogMatcher,
+): void {
+  const records = toRecords(captured);
+  const found = records.filter((item) => matches(item, matcher));
+
+  if (found.length) {
+    throw new AssertionError(
+      `Expected no record matching ${Deno.inspect(matcher)}, ${
+        listRecords(found)
+      }`,
+    );
+  }
+}
+
+/** Runs `fn` with every record sent to a `CaptureHandler` instead of the
+ * configured handlers, the config installed by `setup` is restored
+ * afterwards.  Records of all existing loggers are captured, the levels of
+ * top-level loggers are replaced by `options.level`.
+ */
+export async function captureLogs(
+  fn: (capture: CaptureHandler) => unknown,
+  options: CaptureOptions = {},
+): Promise<CaptureHandler> {
+  const capture = new CaptureHandler();
+  const loggers: Record<string, LoggerConfig> = {};
+  const names = [...getLoggers().values()]
+    .filter((logger) => !logger.parent)
+    .map((logger) => logger.loggerName)
+    .concat("default", options.loggers || []);
+
+  // without propagation a record reaches the capture handler only once
+  for (const name of names) {
+    loggers[name] = {
+      level: options.level || "DEBUG",
+      handlers: ["default"],
+      propagate: false,
+    };
+  }
+
+  const config: LogConfig = { handlers: { default: capture }, loggers };
+  await withConfig(config, () => fn(capture));
+
+  return capture;
+}
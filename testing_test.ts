@@ -0,0 +1,144 @@
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+  assertThrowsAsync,
+} from "./test_deps.ts";
+import {
+  createCategoryLogger,
+  getHandlers,
+  getLogger,
+  setup,
+} from "./mod.ts";
+import { BaseHandler } from "./handlers.ts";
+import {
+  assertLogged,
+  assertNotLogged,
+  captureLogs,
+  CaptureHandler,
+  withConfig,
+} from "./testing.ts";
+
+class TestHandler extends BaseHandler {
+  public messages: string[] = [];
+
+  log(msg: string): void {
+    this.messages.push(msg);
+  }
+}
+
+class FailingHandler extends BaseHandler {
+  async setup(): Promise<void> {
+    throw new Error("cannot open");
+  }
+}
+
+Deno.test("captureHandlerKeepsRecords", function (): void {
+  const capture = new CaptureHandler("INFO");
+  const logger = getLogger("capture.test");
+  logger.handlers = [capture];
+  logger.levelName = "DEBUG";
+
+  logger.debug("skipped");
+  logger.child({ user: "ann", tags: ["a"] }).warningFormat(
+    "disk {0}% full",
+    91,
+  );
+
+  assertEquals(capture.records.length, 1);
+  assertEquals(capture.messages, ["WARNING disk 91% full"]);
+  assertLogged(capture, {
+    level: "WARNING",
+    msgMatch: /disk \d+%/,
+    fields: { tags: ["a"] },
+  });
+  assertNotLogged(capture, { msgMatch: "skipped" });
+  assertThrows(
+    () => assertLogged(capture, { fields: { user: "bob" } }),
+    Error,
+    "WARNING capture.test disk 91% full",
+  );
+
+  capture.clear();
+  assertEquals(capture.records, []);
+});
+
+Deno.test({
+  name: "captureLogs swaps and restores the config",
+  async fn() {
+    const handler = new TestHandler("DEBUG");
+    await setup({
+      handlers: { app: handler },
+      loggers: {
+        default: { level: "WARNING", handlers: ["app"] },
+        app: { level: "INFO", handlers: ["app"] },
+      },
+    });
+    const db = getLogger("app.db");
+
+    const capture = await captureLogs((current) => {
+      getLogger().debug("boot");
+      db.debug("query");
+      createCategoryLogger("pool", "app.db").info("connected");
+      assertLogged(current, { loggerName: "app.db", msgMatch: "query" });
+      assert(getHandlers().get("default") === current);
+    });
+
+    assertEquals(capture.messages, [
+      "DEBUG boot",
+      "DEBUG query",
+      "INFO connected",
+    ]);
+    assertLogged(capture, { category: "pool", level: "INFO" });
+    assertEquals(handler.messages, []);
+
+    // the previous config is back, also after a failure
+    await assertThrowsAsync(
+      () =>
+        captureLogs(() => {
+          throw new Error("test failed");
+        }),
+      Error,
+      "test failed",
+    );
+    db.debug("dropped");
+    db.info("query");
+    getLogger().info("dropped");
+    assertEquals(handler.messages, ["INFO query"]);
+    assert(getHandlers().get("app") === handler);
+
+    await setup({});
+  },
+});
+
+Deno.test({
+  name: "withConfig restores loggers configured in code",
+  async fn() {
+    await setup({});
+    const handler = new TestHandler("DEBUG");
+    const jobs = getLogger("jobs");
+    jobs.handlers = [handler];
+    jobs.levelName = "WARNING";
+    jobs.propagate = false;
+
+    await captureLogs(() => jobs.info("captured"));
+    await assertThrowsAsync(
+      () =>
+        withConfig({
+          handlers: { broken: new FailingHandler("DEBUG") },
+          loggers: { jobs: { level: "DEBUG", handlers: ["broken"] } },
+        }, () => {}),
+      Error,
+      "cannot open",
+    );
+
+    jobs.info("hidden");
+    jobs.warning("kept");
+    assertEquals(jobs.levelName, "WARNING");
+    assert(!jobs.propagate);
+    assertEquals(handler.messages, ["WARNING kept"]);
+    assert(getHandlers().get("broken") === undefined);
+
+    await setup({});
+  },
+});
@@ -1,4 +1,8 @@
 export function asString(data: unknown): string {
+  if (data instanceof Error) {
+    // the stack is rendered from `LogRecord.error` by the handlers
+    return `${data.name}: ${data.message}`;
+  }
   return typeof data === "string" ? data : Deno.inspect(data);
 }
 
@@ -0,0 +1,170 @@
+const CIRCULAR = "[Circular]";
+const ERROR_KEYS = ["name", "message", "stack", "cause", "errors"];
+const STACK_FRAME = /^\s*at (?:(.+?) \()?(.+):(\d+):(\d+)\)?$/;
+
+export interface StackFrame {
+  func: string | null;
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack: StackFrame[];
+  /** Serialized `cause`, a `SerializedError` when the cause is an error */
+  cause?: unknown;
+  /** Children of an `AggregateError` */
+  errors?: unknown[];
+  /** Custom enumerable properties such as `code` or `status` */
+  props?: Record<string, unknown>;
+}
+
+/** Parses the frames of a V8 stack trace, lines it cannot parse are
+ * skipped.
+ */
+export function parseStack(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const line of stack.split("\n")) {
+    const matches = STACK_FRAME.exec(line);
+    if (matches) {
+      frames.push({
+        func: matches[1] ?? null,
+        file: matches[2],
+        line: Number(matches[3]),
+        column: Number(matches[4]),
+      });
+    }
+  }
+
+  return frames;
+}
+
+export function isSerializedError(value: unknown): value is SerializedError {
+  return typeof value === "object" && value !== null &&
+    typeof (value as SerializedError).name === "string" &&
+    typeof (value as SerializedError).message === "string" &&
+    Array.isArray((value as SerializedError).stack);
+}
+
+export function serializeError(
+  err: Error,
+  seen: WeakSet<object> = new WeakSet(),
+): SerializedError {
+  seen.add(err);
+
+  const result: SerializedError = {
+    name: err.name,
+    message: err.message,
+    stack: err.stack ? parseStack(err.stack) : [],
+  };
+
+  const props = err as unknown as Record<string, unknown>;
+  const keys = Object.keys(err).filter((key) => !ERROR_KEYS.includes(key));
+  if (keys.length) {
+    result.props = {};
+    for (const key of keys) {
+      result.props[key] = toSerializable(props[key], seen);
+    }
+  }
+
+  const cause = (err as { cause?: unknown }).cause;
+  if (cause !== undefined) {
+    result.cause = toSerializable(cause, seen);
+  }
+
+  const errors = (err as { errors?: unknown }).errors;
+  if (Array.isArray(errors)) {
+    result.errors = errors.map((item) => toSerializable(item, seen));
+  }
+
+  seen.delete(err);
+
+  return result;
+}
+
+/** Converts any value into a structure that `JSON.stringify` can handle
+ * without throwing: circular references become `"[Circular]"`, `BigInt`s
+ * become strings, `Map`s become plain objects, `Set`s become arrays and
+ * `Error`s become a `SerializedError`.
+ */
+export function toSerializable(
+  value: unknown,
+  seen: WeakSet<object> = new WeakSet(),
+): unknown {
+  switch (typeof value) {
+    case "bigint":
+      return value.toString();
+    case "symbol":
+      return value.toString();
+    case "function":
+      return `[Function: ${value.name || "anonymous"}]`;
+    case "object":
+      break;
+    default:
+      return value;
+  }
+
+  if (value === null) {
+    return null;
+  }
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+  }
+
+  if (value instanceof RegExp) {
+    return value.toString();
+  }
+
+  const obj = value as object;
+  if (seen.has(obj)) {
+    return CIRCULAR;
+  }
+
+  if (value instanceof Error) {
+    return serializeError(value, seen);
+  }
+  seen.add(obj);
+
+  let result: unknown;
+
+  if (value instanceof Map) {
+    const mapResult: Record<string, unknown> = {};
+    for (const [key, item] of value.entries()) {
+      mapResult[String(toSerializable(key, seen))] = toSerializable(
+        item,
+        seen,
+      );
+    }
+    result = mapResult;
+  } else if (value instanceof Set) {
+    result = [...value].map((item) => toSerializable(item, seen));
+  } else if (Array.isArray(value)) {
+    result = value.map((item) => toSerializable(item, seen));
+  } else if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+    result = toSerializable((value as { toJSON(): unknown }).toJSON(), seen);
+  } else {
+    const objResult: Record<string, unknown> = {};
+    for (const key of Object.keys(obj)) {
+      objResult[key] = toSerializable(
+        (obj as Record<string, unknown>)[key],
+        seen,
+      );
+    }
+    result = objResult;
+  }
+
+  // only values on the current path count as circular, shared references
+  // elsewhere in the tree are serialized normally
+  seen.delete(obj);
+
+  return result;
+}
+
+/** `JSON.stringify` that never throws on circular or exotic values */
+export function safeStringify(value: unknown, space?: number): string {
+  return JSON.stringify(toSerializable(value), null, space);
+}
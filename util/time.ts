@@ -0,0 +1,142 @@
+export interface ZonedParts {
+  year: number;
+  /** 1 - 12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0 (Sunday) - 6 (Saturday) */
+  weekday: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hour12: false,
+      weekday: "short",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Returns the wall clock of `date` in `timeZone` (an IANA name such as
+ * "Europe/Moscow" or "UTC"), or in the local time zone when omitted.
+ */
+export function getZonedParts(date: Date, timeZone?: string): ZonedParts {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      weekday: date.getDay(),
+    };
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    // some ICU versions print midnight as "24"
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/** Converts a wall clock time in `timeZone` to a timestamp.  Out of range
+ * values roll over the same way `Date.UTC` does, e.g. day 32 is the first
+ * day of the next month.
+ */
+export function zonedTimeToTimestamp(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  timeZone?: string,
+): number {
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hour, minute).getTime();
+  }
+
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  let timestamp = wallClock;
+
+  // the offset depends on the instant itself, two passes settle DST edges
+  for (let i = 0; i < 2; i++) {
+    const p = getZonedParts(new Date(timestamp), timeZone);
+    const offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) -
+      Math.floor(timestamp / 60000) * 60000;
+    timestamp = wallClock - offset;
+  }
+
+  return timestamp;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/** Formats `parts` as `YYYY-MM-DD`, optionally followed by `_HH` and `-mm` */
+export function formatZonedParts(
+  parts: ZonedParts,
+  precision: "day" | "hour" | "minute" = "day",
+): string {
+  let result = `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+
+  if (precision !== "day") {
+    result += `_${pad(parts.hour)}`;
+  }
+  if (precision === "minute") {
+    result += `-${pad(parts.minute)}`;
+  }
+
+  return result;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Converts a duration such as `"30m"`, `"12h"` or `"7d"` to milliseconds,
+ * numbers are returned as is.
+ */
+export function parseDuration(value: number | string): number {
+  if (typeof value === "number") {
+    return value;
+  }
+
+  const matches = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)?\s*$/.exec(value);
+  if (!matches) {
+    throw new Error(`invalid duration: "${value}"`);
+  }
+
+  return Number(matches[1]) * DURATION_UNITS[matches[2] || "ms"];
+}